@@ -0,0 +1,75 @@
+import * as vscode from 'vscode';
+import { PruneRunResult, RepositoryScan, StaleBranch } from './types';
+import { StaleRuleId, staleRuleIds } from './staleRules';
+
+/**
+ * Options for pruning through the API
+ */
+export interface ApiPruneOptions {
+    /** Report what would be deleted without deleting anything */
+    dryRun?: boolean;
+    /** Also delete branches with commits that are not on the default branch or with stashes made on them */
+    force?: boolean;
+}
+
+/**
+ * API returned from `activate`. Other extensions get it with
+ * `vscode.extensions.getExtension('jonnokc.git-branch-pruner-helper')?.activate()`
+ * and should check `version` before using it.
+ */
+export interface GitBranchPrunerApi {
+    /** Incremented on breaking changes */
+    readonly version: 1;
+    /**
+     * Scan repositories for stale branches, or every workspace repository when
+     * none are given. Paths may be anywhere inside a repository.
+     */
+    scan(repositories?: string[]): Promise<RepositoryScan[]>;
+    /**
+     * Delete branches returned by `scan` without prompting. Each deletion is
+     * recorded in the prune journal so it can be restored. Branches checked out
+     * in a worktree, kept by the repository's beforePrune hook, or in a
+     * repository whose hooks the user has not approved yet are never deleted
+     * and are returned in `blocked`.
+     */
+    prune(branches: StaleBranch[], options?: ApiPruneOptions): Promise<PruneRunResult>;
+    /** Fires after repositories have been scanned, by any command, timer or API call */
+    readonly onDidScan: vscode.Event<RepositoryScan[]>;
+    /** Fires after branches have been deleted, by any command, timer or API call */
+    readonly onDidPrune: vscode.Event<PruneRunResult>;
+}
+
+/**
+ * Arguments accepted by the prune and identify commands, e.g. from a
+ * keybinding's `args` or `vscode.commands.executeCommand`
+ */
+export interface PruneCommandArgs {
+    /** Repository paths to scan instead of the configured scope */
+    repositories?: string[];
+    /** Only list the stale branches, as in identify only mode */
+    dryRun?: boolean;
+    /** Only consider branches matching one of these globs or `/regex/` patterns */
+    branches?: string[];
+    /** Flag branches with these rules instead of the configured `gitBranchPruner.staleRules` */
+    rules?: StaleRuleId[];
+}
+
+/**
+ * Validate command arguments. Anything that is not a plain arguments object,
+ * such as a tree item passed by a menu, is ignored.
+ */
+export function parsePruneCommandArgs(value: unknown): PruneCommandArgs {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        return {};
+    }
+    const input = value as Record<string, unknown>;
+    const isStringArray = (item: unknown): item is string[] => Array.isArray(item) && item.every(entry => typeof entry === 'string');
+    return {
+        repositories: isStringArray(input.repositories) ? input.repositories : undefined,
+        dryRun: typeof input.dryRun === 'boolean' ? input.dryRun : undefined,
+        branches: isStringArray(input.branches) ? input.branches : undefined,
+        rules: isStringArray(input.rules) && input.rules.length > 0 && input.rules.every(rule => staleRuleIds.includes(rule as StaleRuleId))
+            ? input.rules as StaleRuleId[]
+            : undefined
+    };
+}
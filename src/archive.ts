@@ -0,0 +1,218 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { SimpleGit } from 'simple-git';
+
+/**
+ * Where a branch is kept instead of only being deleted
+ * - tag: lightweight tag `archive/<name>`
+ * - archiveRef: a ref under the archive namespace, which does not show up in tag or branch lists
+ * - bundle: a `git bundle` file holding every branch archived in the same run
+ */
+export type ArchiveTarget = 'tag' | 'archiveRef' | 'bundle';
+
+/**
+ * How the archive prune action keeps branches
+ */
+export type ArchiveMode = 'namespace' | 'bundle';
+
+/**
+ * Settings for archiving branches and collecting old archives
+ */
+export interface ArchiveSettings {
+    mode: ArchiveMode;
+    /** Ref prefix for archived branches. YYYY, MM and DD are replaced with the archive date */
+    namespace: string;
+    /** Where bundles are written, relative to the repository root; empty for `.git/branch-archives` */
+    bundleDirectory: string;
+    /** Archived refs and bundles older than this are removed; 0 keeps them forever */
+    retentionDays: number;
+}
+
+/**
+ * The defaults of the archive settings
+ */
+export const defaultArchiveSettings: ArchiveSettings = {
+    mode: 'namespace',
+    namespace: 'refs/archive/YYYY-MM',
+    bundleDirectory: '',
+    retentionDays: 180
+};
+
+/**
+ * A branch kept in an archive ref, tag or bundle
+ */
+export interface ArchivedBranch {
+    /** Name of the branch when it was archived */
+    branch: string;
+    /** The archive ref, or the branch ref inside the bundle */
+    ref: string;
+    sha: string;
+    /** When the branch was archived, in milliseconds */
+    archivedAt: number;
+    kind: 'ref' | 'tag' | 'bundle';
+    /** The bundle file, for bundle archives */
+    bundlePath?: string;
+}
+
+const dayMs = 24 * 60 * 60 * 1000;
+const tagPrefix = 'refs/tags/archive/';
+
+/**
+ * Replace the date placeholders of an archive namespace
+ */
+export function expandNamespace(namespace: string, date: Date): string {
+    const pad = (value: number) => String(value).padStart(2, '0');
+    return namespace
+        .replace(/\/+$/, '')
+        .replace(/YYYY/g, String(date.getFullYear()))
+        .replace(/MM/g, pad(date.getMonth() + 1))
+        .replace(/DD/g, pad(date.getDate()));
+}
+
+/**
+ * The ref a branch is archived to
+ */
+export function getArchiveRefName(branchName: string, target: 'tag' | 'archiveRef', namespace: string = defaultArchiveSettings.namespace, date: Date = new Date()): string {
+    return target === 'tag' ? `${tagPrefix}${branchName}` : `${expandNamespace(namespace, date)}/${branchName}`;
+}
+
+/**
+ * Point an archive ref at the tip of a branch, failing if the ref already
+ * exists so an earlier archive is never overwritten. Returns the ref name.
+ */
+export async function archiveBranch(git: SimpleGit, branchName: string, target: 'tag' | 'archiveRef', namespace?: string, date: Date = new Date()): Promise<string> {
+    const ref = getArchiveRefName(branchName, target, namespace, date);
+    if (!ref.startsWith('refs/') || ref.startsWith('refs/heads/')) {
+        throw new Error(`Archive namespace must be under refs/ and outside refs/heads/, got ${ref}`);
+    }
+    const sha = (await git.raw(['rev-parse', '--verify', `refs/heads/${branchName}`])).trim();
+    // An empty old value makes update-ref fail when the ref exists; the reflog
+    // records when the branch was archived, which retention relies on
+    await git.raw(['update-ref', '--create-reflog', '-m', `archive ${branchName}`, ref, sha, '']);
+    return ref;
+}
+
+/**
+ * Get the directory bundles are written to for a repository
+ */
+export async function getBundleDirectory(git: SimpleGit, repositoryPath: string, settings: ArchiveSettings): Promise<string> {
+    if (settings.bundleDirectory) {
+        return path.resolve(repositoryPath, settings.bundleDirectory);
+    }
+    const commonDir = (await git.raw(['rev-parse', '--git-common-dir'])).trim();
+    return path.resolve(repositoryPath, commonDir, 'branch-archives');
+}
+
+/**
+ * Write branches to a new bundle file and return its path
+ */
+export async function writeArchiveBundle(git: SimpleGit, directory: string, branchNames: string[], date: Date = new Date()): Promise<string> {
+    fs.mkdirSync(directory, { recursive: true });
+    const stamp = date.toISOString().replace(/[:.]/g, '-');
+    const bundlePath = path.join(directory, `archive-${stamp}.bundle`);
+    await git.raw(['bundle', 'create', bundlePath, ...branchNames.map(name => `refs/heads/${name}`)]);
+    if (!fs.existsSync(bundlePath)) {
+        throw new Error(`git did not write ${bundlePath}`);
+    }
+    return bundlePath;
+}
+
+/**
+ * Build a pattern matching refs under an archive namespace, capturing the branch name
+ */
+function namespacePattern(namespace: string): RegExp {
+    const escaped = namespace.replace(/\/+$/, '').replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const datePattern = escaped.replace(/YYYY/g, '\\d{4}').replace(/MM|DD/g, '\\d{2}');
+    return new RegExp(`^${datePattern}/(.+)$`);
+}
+
+/**
+ * The fixed part of a namespace, before its first date placeholder
+ */
+function namespacePrefix(namespace: string): string {
+    const parts = namespace.replace(/\/+$/, '').split(/YYYY|MM|DD/);
+    return parts.length === 1 ? `${parts[0]}/` : parts[0].substring(0, parts[0].lastIndexOf('/') + 1);
+}
+
+/**
+ * Get when a ref was archived from its reflog, falling back to the commit date
+ */
+async function getArchivedTime(git: SimpleGit, ref: string, commitTime: number): Promise<number> {
+    try {
+        const entry = (await git.raw(['reflog', 'show', '--date=unix', '-n', '1', '--format=%gd', ref])).trim();
+        const match = /@\{(\d+)\}$/.exec(entry);
+        return match ? parseInt(match[1], 10) * 1000 : commitTime;
+    } catch {
+        return commitTime;
+    }
+}
+
+/**
+ * List branches archived as refs, tags and bundles, newest first
+ */
+export async function listArchivedBranches(git: SimpleGit, repositoryPath: string, settings: ArchiveSettings): Promise<ArchivedBranch[]> {
+    const archived: ArchivedBranch[] = [];
+    const pattern = namespacePattern(settings.namespace);
+    const prefixes = [...new Set([namespacePrefix(settings.namespace), tagPrefix])];
+
+    const output = await git.raw(['for-each-ref', '--format=%(refname)%00%(objectname)%00%(committerdate:unix)', ...prefixes]);
+    for (const line of output.split('\n').filter(l => l.includes('\0'))) {
+        const [ref, sha, committerTime] = line.split('\0');
+        const isTag = ref.startsWith(tagPrefix);
+        const branch = isTag ? ref.substring(tagPrefix.length) : pattern.exec(ref)?.[1];
+        if (!branch) {
+            continue;
+        }
+        const archivedAt = await getArchivedTime(git, ref, parseInt(committerTime, 10) * 1000);
+        archived.push({ branch, ref, sha, archivedAt, kind: isTag ? 'tag' : 'ref' });
+    }
+
+    const directory = await getBundleDirectory(git, repositoryPath, settings);
+    const bundles = fs.existsSync(directory) ? fs.readdirSync(directory).filter(file => file.endsWith('.bundle')) : [];
+    for (const file of bundles) {
+        const bundlePath = path.join(directory, file);
+        const archivedAt = fs.statSync(bundlePath).mtimeMs;
+        const heads = await git.raw(['bundle', 'list-heads', bundlePath]);
+        for (const line of heads.split('\n').filter(l => l.includes(' refs/heads/'))) {
+            const [sha, ref] = line.split(' ');
+            archived.push({ branch: ref.substring('refs/heads/'.length), ref, sha, archivedAt, kind: 'bundle', bundlePath });
+        }
+    }
+
+    return archived.sort((a, b) => b.archivedAt - a.archivedAt);
+}
+
+/**
+ * Recreate a branch from an archive. Archive refs and tags are removed once
+ * the branch exists again; bundles are kept because they hold other branches.
+ */
+export async function restoreArchivedBranch(git: SimpleGit, archived: ArchivedBranch, branchName: string = archived.branch): Promise<void> {
+    if (archived.kind === 'bundle' && archived.bundlePath) {
+        await git.raw(['fetch', '--no-tags', archived.bundlePath, `${archived.ref}:refs/heads/${branchName}`]);
+        return;
+    }
+    await git.raw(['branch', branchName, archived.sha]);
+    await git.raw(['update-ref', '-d', archived.ref, archived.sha]);
+}
+
+/**
+ * Remove archive refs and bundles older than the retention period. Tags are
+ * left alone because they are visible and were made on request. Returns the
+ * branches that were removed.
+ */
+export async function removeExpiredArchives(git: SimpleGit, repositoryPath: string, settings: ArchiveSettings, now: number = Date.now()): Promise<ArchivedBranch[]> {
+    if (settings.retentionDays <= 0) {
+        return [];
+    }
+    const cutoff = now - settings.retentionDays * dayMs;
+    const expired = (await listArchivedBranches(git, repositoryPath, settings))
+        .filter(archived => archived.kind !== 'tag' && archived.archivedAt < cutoff);
+
+    for (const archived of expired.filter(a => a.kind === 'ref')) {
+        await git.raw(['update-ref', '-d', archived.ref, archived.sha]);
+    }
+    for (const bundlePath of new Set(expired.map(a => a.bundlePath).filter((p): p is string => p !== undefined))) {
+        fs.rmSync(bundlePath, { force: true });
+    }
+    return expired;
+}
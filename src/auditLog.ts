@@ -0,0 +1,124 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+/**
+ * Destructive actions recorded in the audit log
+ * - delete: a local branch was deleted
+ * - archive: a local branch was kept in an archive and then deleted
+ * - deleteRemote: a branch was deleted on its remote
+ * - removeArchive: an expired archive ref or bundle was removed
+ */
+export type AuditAction = 'delete' | 'archive' | 'deleteRemote' | 'removeArchive';
+
+/**
+ * One line of the audit log
+ */
+export interface AuditEntry {
+    /** ISO 8601 time of the action */
+    time: string;
+    /** Login name of the user the action ran as */
+    user: string;
+    action: AuditAction;
+    repositoryPath: string;
+    /** Branch name, prefixed with the remote for remote branches */
+    branch: string;
+    /** Tip commit of the branch when the action ran */
+    sha?: string;
+    outcome: 'succeeded' | 'failed';
+    /** Archive ref or bundle for archives, the error for failures */
+    detail?: string;
+}
+
+/**
+ * Narrows the entries shown in a review
+ */
+export interface AuditFilter {
+    repositoryPath?: string;
+    /** Only entries at or after this time, in milliseconds */
+    since?: number;
+}
+
+/**
+ * Login name of the current user, or "unknown" when the system has none
+ */
+export function getAuditUser(): string {
+    try {
+        return os.userInfo().username;
+    } catch {
+        return process.env.USER ?? process.env.USERNAME ?? 'unknown';
+    }
+}
+
+/**
+ * Parse the lines of an audit log, skipping lines that are not entries,
+ * e.g. a line cut short by a crash
+ */
+export function parseAuditLog(content: string): AuditEntry[] {
+    const entries: AuditEntry[] = [];
+    for (const line of content.split('\n')) {
+        if (!line.trim()) {
+            continue;
+        }
+        try {
+            const entry = JSON.parse(line);
+            if (entry && typeof entry.time === 'string' && typeof entry.action === 'string' && typeof entry.repositoryPath === 'string') {
+                entries.push(entry);
+            }
+        } catch {
+            // Keep reading; the rest of the log is still valid
+        }
+    }
+    return entries;
+}
+
+/**
+ * Entries matching a filter, in the order they were written
+ */
+export function filterAuditEntries(entries: AuditEntry[], filter: AuditFilter): AuditEntry[] {
+    return entries.filter(entry =>
+        (filter.repositoryPath === undefined || entry.repositoryPath === filter.repositoryPath) &&
+        (filter.since === undefined || Date.parse(entry.time) >= filter.since));
+}
+
+/**
+ * One line of a human readable audit review, columns separated by two spaces
+ */
+export function formatAuditEntry(entry: AuditEntry): string {
+    return [entry.time, entry.user, entry.action, entry.outcome, entry.repositoryPath, entry.branch, entry.sha?.substring(0, 12) ?? '-', entry.detail ?? '']
+        .join('  ')
+        .trimEnd();
+}
+
+/**
+ * Append-only JSON Lines file of destructive actions. Entries are only ever
+ * appended, never rewritten, so the file can be shipped to other tools as is.
+ */
+export class AuditLog {
+    constructor(public readonly filePath: string) {}
+
+    /**
+     * Append entries, creating the file and its directory when needed
+     */
+    public async append(entries: AuditEntry[]): Promise<void> {
+        if (entries.length === 0) {
+            return;
+        }
+        await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+        await fs.promises.appendFile(this.filePath, entries.map(entry => `${JSON.stringify(entry)}\n`).join(''), 'utf8');
+    }
+
+    /**
+     * Read every entry, or none when nothing was logged yet
+     */
+    public async read(): Promise<AuditEntry[]> {
+        try {
+            return parseAuditLog(await fs.promises.readFile(this.filePath, 'utf8'));
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+                return [];
+            }
+            throw error;
+        }
+    }
+}
@@ -0,0 +1,80 @@
+import { StaleBranch } from './types';
+
+/**
+ * Guardrails for deleting branches on the auto-scan timer without a prompt
+ */
+export interface AutoPrunePolicy {
+    /** Only branches whose last commit is at least this old are deleted */
+    minAgeDays: number;
+    /** Most branches deleted in one auto-scan; the rest wait for the next one */
+    maxPerRun: number;
+}
+
+/**
+ * Stale branches split by whether the auto-prune policy allows deleting them now
+ */
+export interface AutoPruneSelection {
+    /** Branches to delete in this run */
+    eligible: StaleBranch[];
+    /** Branches inside the policy that exceed the per-run maximum */
+    deferred: StaleBranch[];
+    /** Branches outside the policy, which still need a human decision */
+    remaining: StaleBranch[];
+}
+
+/**
+ * Deletions made by auto-prune since the last daily summary
+ */
+export interface AutoPruneSummary {
+    /** When the first deletion of this summary period happened, in milliseconds */
+    periodStart: number;
+    deleted: { repositoryName: string; branch: string; timestamp: number }[];
+}
+
+const dayMs = 24 * 60 * 60 * 1000;
+
+/**
+ * Whether a branch is provably safe to delete unattended: its upstream was
+ * deleted, every commit is on the default branch and it has been idle long enough
+ */
+export function isAutoPrunable(branch: StaleBranch, policy: AutoPrunePolicy, now: number = Date.now()): boolean {
+    return branch.upstream?.gone === true
+        && branch.mergeStatus === 'merged'
+        && branch.pullRequest?.state !== 'closed'
+        && now - branch.lastCommit.time >= policy.minAgeDays * dayMs;
+}
+
+/**
+ * Pick the branches auto-prune may delete in this run, oldest first
+ */
+export function selectAutoPruneBranches(branches: StaleBranch[], policy: AutoPrunePolicy, now: number = Date.now()): AutoPruneSelection {
+    const inPolicy = branches
+        .filter(branch => isAutoPrunable(branch, policy, now))
+        .sort((a, b) => a.lastCommit.time - b.lastCommit.time);
+    return {
+        eligible: inPolicy.slice(0, policy.maxPerRun),
+        deferred: inPolicy.slice(policy.maxPerRun),
+        remaining: branches.filter(branch => !inPolicy.includes(branch))
+    };
+}
+
+/**
+ * Add deleted branches to the running summary, starting a new period if needed
+ */
+export function addToSummary(summary: AutoPruneSummary | undefined, deleted: StaleBranch[], now: number = Date.now()): AutoPruneSummary {
+    const current = summary ?? { periodStart: now, deleted: [] };
+    return {
+        periodStart: current.periodStart,
+        deleted: [
+            ...current.deleted,
+            ...deleted.map(branch => ({ repositoryName: branch.repositoryName, branch: branch.name, timestamp: now }))
+        ]
+    };
+}
+
+/**
+ * Whether a day has passed since the summary period started
+ */
+export function isSummaryDue(summary: AutoPruneSummary | undefined, now: number = Date.now()): summary is AutoPruneSummary {
+    return summary !== undefined && summary.deleted.length > 0 && now - summary.periodStart >= dayMs;
+}
@@ -0,0 +1,207 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { BranchHistory, HistorySample, RepositoryHistory, summarizeTrends } from './branchHistory';
+import { createNonce, escapeHtml } from './webviewHtml';
+
+/**
+ * Messages posted by the dashboard's script
+ */
+type DashboardMessage = { type: 'prune' | 'identify'; repositoryPath: string };
+
+const dayMs = 24 * 60 * 60 * 1000;
+
+/**
+ * Days of history drawn in the sparklines
+ */
+const chartDays = 90;
+
+/**
+ * Webview listing branch counts, trends and deletions per repository, built
+ * from the recorded scan history
+ */
+export class BranchDashboard implements vscode.Disposable {
+    private panel: vscode.WebviewPanel | undefined;
+    private repositoryPaths: string[] = [];
+
+    constructor(
+        private readonly history: BranchHistory,
+        private readonly onRun: (repositoryPath: string, identifyOnly: boolean) => void
+    ) {}
+
+    /**
+     * Open the dashboard for the given repositories, or reveal it when open
+     */
+    public show(repositoryPaths: string[]): void {
+        this.repositoryPaths = repositoryPaths;
+        if (this.panel) {
+            this.panel.reveal();
+        } else {
+            this.panel = vscode.window.createWebviewPanel(
+                'gitBranchPruner.dashboard',
+                'Branch Hygiene',
+                vscode.ViewColumn.Active,
+                { enableScripts: true }
+            );
+            this.panel.webview.onDidReceiveMessage((message: DashboardMessage) => {
+                if (this.repositoryPaths.includes(message.repositoryPath)) {
+                    this.onRun(message.repositoryPath, message.type === 'identify');
+                }
+            });
+            this.panel.onDidDispose(() => {
+                this.panel = undefined;
+            });
+        }
+        this.refresh();
+    }
+
+    /**
+     * Redraw the dashboard with the latest history, if it is open
+     */
+    public refresh(): void {
+        if (!this.panel) {
+            return;
+        }
+        const histories = this.repositoryPaths.map(repositoryPath => this.history.get(repositoryPath) ?? {
+            repositoryPath,
+            repositoryName: path.basename(repositoryPath),
+            samples: [],
+            deletions: []
+        });
+        this.panel.webview.html = renderDashboard(histories, Date.now(), createNonce());
+    }
+
+    public dispose(): void {
+        this.panel?.dispose();
+    }
+}
+
+/**
+ * Whole days between two times, e.g. for branch ages
+ */
+function formatDays(ms: number): string {
+    const days = Math.floor(ms / dayMs);
+    return days === 1 ? '1 day' : `${days} days`;
+}
+
+/**
+ * Draw stale branch counts over the chart period as a line
+ */
+function renderStaleChart(samples: HistorySample[], now: number): string {
+    const points = samples.filter(s => s.timestamp >= now - chartDays * dayMs);
+    if (points.length < 2) {
+        return '<span class="muted">not enough scans yet</span>';
+    }
+    const max = Math.max(1, ...points.map(s => s.staleBranches));
+    const coordinates = points.map(s => {
+        const x = 120 - (now - s.timestamp) / (chartDays * dayMs) * 120;
+        const y = 28 - s.staleBranches / max * 26;
+        return `${x.toFixed(1)},${y.toFixed(1)}`;
+    });
+    return `<svg class="chart" viewBox="0 0 120 30" width="120" height="30"><polyline class="line" points="${coordinates.join(' ')}"/></svg>`;
+}
+
+/**
+ * Draw deletions over the chart period as weekly bars
+ */
+function renderDeletionChart(history: RepositoryHistory, now: number): string {
+    const weeks = Math.ceil(chartDays / 7);
+    const counts = new Array<number>(weeks).fill(0);
+    for (const deletion of history.deletions) {
+        const week = Math.floor((now - deletion.day) / (7 * dayMs));
+        if (week >= 0 && week < weeks) {
+            counts[weeks - 1 - week] += deletion.count;
+        }
+    }
+    const max = Math.max(1, ...counts);
+    const width = 120 / weeks;
+    const bars = counts.map((count, i) => {
+        const height = count / max * 28;
+        return `<rect class="bar" x="${(i * width + 1).toFixed(1)}" y="${(30 - height).toFixed(1)}" width="${(width - 2).toFixed(1)}" height="${height.toFixed(1)}"/>`;
+    });
+    return `<svg class="chart" viewBox="0 0 120 30" width="120" height="30">${bars.join('')}</svg>`;
+}
+
+/**
+ * Render one repository row with its latest counts, charts and run buttons
+ */
+function renderRow(history: RepositoryHistory, trend: ReturnType<typeof summarizeTrends>[number] | undefined, now: number): string {
+    const latest = trend?.latest;
+    const cells = latest
+        ? [
+            `${latest.localBranches}`,
+            `${latest.staleBranches}`,
+            `${latest.withoutUpstream}`,
+            latest.oldestCommitTime !== undefined ? formatDays(latest.timestamp - latest.oldestCommitTime) : '—',
+            `${renderStaleChart(history.samples, now)}<div class="muted">${trend.staleGrowthPerWeek > 0 ? '+' : ''}${trend.staleGrowthPerWeek.toFixed(1)} per week</div>`,
+            `${renderDeletionChart(history, now)}<div class="muted">${trend.deleted} in 30 days</div>`
+        ]
+        : ['—', '—', '—', '—', '<span class="muted">no scans recorded yet</span>', renderDeletionChart(history, now)];
+    const scanned = latest ? `<div class="muted">scanned ${new Date(latest.timestamp).toLocaleString()}</div>` : '';
+    const repositoryPath = escapeHtml(history.repositoryPath);
+
+    return `<tr>
+        <td><strong>${escapeHtml(history.repositoryName)}</strong>${scanned}</td>
+        ${cells.map(cell => `<td>${cell}</td>`).join('')}
+        <td class="actions">
+            <button data-action="prune" data-repository="${repositoryPath}">Prune</button>
+            <button class="secondary" data-action="identify" data-repository="${repositoryPath}">Identify</button>
+        </td>
+    </tr>`;
+}
+
+/**
+ * Build the dashboard page, repositories gaining stale branches fastest first
+ */
+function renderDashboard(histories: RepositoryHistory[], now: number, nonce: string): string {
+    const trends = summarizeTrends(histories, now);
+    const ordered = [
+        ...trends.map(trend => histories.find(h => h.repositoryPath === trend.repositoryPath)!),
+        ...histories.filter(h => !trends.some(trend => trend.repositoryPath === h.repositoryPath))
+    ];
+    const rows = ordered.map(history => renderRow(history, trends.find(t => t.repositoryPath === history.repositoryPath), now));
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'nonce-${nonce}'; script-src 'nonce-${nonce}';">
+    <style nonce="${nonce}">
+        body { font-family: var(--vscode-font-family); color: var(--vscode-foreground); padding: 0 20px 20px; }
+        table { border-collapse: collapse; width: 100%; }
+        th, td { padding: 6px 8px; text-align: left; vertical-align: top; border-bottom: 1px solid var(--vscode-panel-border); }
+        th { color: var(--vscode-descriptionForeground); font-weight: normal; }
+        .muted { color: var(--vscode-descriptionForeground); font-size: 0.9em; }
+        .chart .line { fill: none; stroke: var(--vscode-charts-orange); stroke-width: 1.5; }
+        .chart .bar { fill: var(--vscode-charts-green); }
+        .actions { white-space: nowrap; }
+        button { padding: 4px 12px; border: none; color: var(--vscode-button-foreground); background: var(--vscode-button-background); cursor: pointer; }
+        button.secondary { color: var(--vscode-button-secondaryForeground); background: var(--vscode-button-secondaryBackground); }
+    </style>
+</head>
+<body>
+    <h1>Branch Hygiene</h1>
+    <p class="muted">Counts are from the latest recorded scan of each repository. Trends cover the last 30 days, charts the last ${chartDays}.</p>
+    <table>
+        <thead>
+            <tr>
+                <th>Repository</th>
+                <th>Local branches</th>
+                <th>Stale</th>
+                <th>Without upstream</th>
+                <th>Oldest branch</th>
+                <th>Stale over time</th>
+                <th>Deleted per week</th>
+                <th></th>
+            </tr>
+        </thead>
+        <tbody>${rows.join('')}</tbody>
+    </table>
+    <script nonce="${nonce}">
+        const vscode = acquireVsCodeApi();
+        document.querySelectorAll('button[data-action]').forEach(button => button.addEventListener('click', () => {
+            vscode.postMessage({ type: button.dataset.action, repositoryPath: button.dataset.repository });
+        }));
+    </script>
+</body>
+</html>`;
+}
@@ -0,0 +1,185 @@
+import * as vscode from 'vscode';
+import { RepositoryScan, StaleBranch } from './types';
+
+/**
+ * Branch counts of a repository as recorded by one scan
+ */
+export interface HistorySample {
+    timestamp: number;
+    localBranches: number;
+    staleBranches: number;
+    withoutUpstream: number;
+    /** Last commit time of the branch idle the longest, in milliseconds */
+    oldestCommitTime?: number;
+}
+
+/**
+ * Branches deleted in a repository on one day
+ */
+export interface DeletionCount {
+    /** Local midnight of the day, in milliseconds */
+    day: number;
+    count: number;
+}
+
+/**
+ * Recorded scans and deletions of one repository, oldest first
+ */
+export interface RepositoryHistory {
+    repositoryPath: string;
+    repositoryName: string;
+    /** At most one sample per day; a later scan replaces the earlier one */
+    samples: HistorySample[];
+    deletions: DeletionCount[];
+}
+
+/**
+ * A repository's latest counts and how they changed over the trend period
+ */
+export interface RepositoryTrend {
+    repositoryPath: string;
+    repositoryName: string;
+    latest: HistorySample;
+    /** Stale branches gained per week over the period; negative when shrinking */
+    staleGrowthPerWeek: number;
+    /** Branches deleted in the period */
+    deleted: number;
+}
+
+const dayMs = 24 * 60 * 60 * 1000;
+
+/**
+ * Days of history kept per repository
+ */
+export const historyRetentionDays = 365;
+
+/**
+ * Local midnight of the day a time falls on
+ */
+function startOfDay(time: number): number {
+    const date = new Date(time);
+    date.setHours(0, 0, 0, 0);
+    return date.getTime();
+}
+
+/**
+ * Add a scan to a repository's history, replacing a sample taken earlier the
+ * same day. Failed scans have no counts and leave the history unchanged.
+ */
+export function addScan(history: RepositoryHistory | undefined, scan: RepositoryScan): RepositoryHistory | undefined {
+    if (!scan.branchStats) {
+        return history;
+    }
+    const sample: HistorySample = {
+        timestamp: scan.scannedAt,
+        localBranches: scan.branchStats.localBranches,
+        staleBranches: scan.staleBranches.length,
+        withoutUpstream: scan.branchStats.withoutUpstream,
+        oldestCommitTime: scan.branchStats.oldestCommitTime
+    };
+    const day = startOfDay(scan.scannedAt);
+    const cutoff = scan.scannedAt - historyRetentionDays * dayMs;
+    const samples = (history?.samples ?? []).filter(s => s.timestamp >= cutoff && startOfDay(s.timestamp) !== day);
+    return {
+        repositoryPath: scan.repositoryPath,
+        repositoryName: scan.repositoryName,
+        samples: [...samples, sample].sort((a, b) => a.timestamp - b.timestamp),
+        deletions: (history?.deletions ?? []).filter(d => d.day >= cutoff)
+    };
+}
+
+/**
+ * Count deleted branches on the day they were deleted
+ */
+export function addDeletions(history: RepositoryHistory | undefined, repository: { repositoryPath: string; repositoryName: string }, count: number, now: number = Date.now()): RepositoryHistory {
+    const day = startOfDay(now);
+    const deletions = (history?.deletions ?? []).filter(d => d.day >= now - historyRetentionDays * dayMs);
+    const today = deletions.find(d => d.day === day);
+    return {
+        repositoryPath: repository.repositoryPath,
+        repositoryName: repository.repositoryName,
+        samples: history?.samples ?? [],
+        deletions: today
+            ? deletions.map(d => d === today ? { day, count: d.count + count } : d)
+            : [...deletions, { day, count }]
+    };
+}
+
+/**
+ * Compare repositories over the last `periodDays`, those gaining stale
+ * branches fastest first. Repositories without samples are left out.
+ */
+export function summarizeTrends(histories: RepositoryHistory[], now: number = Date.now(), periodDays: number = 30): RepositoryTrend[] {
+    const periodStart = now - periodDays * dayMs;
+    const trends: RepositoryTrend[] = [];
+    for (const history of histories) {
+        const latest = history.samples[history.samples.length - 1];
+        if (!latest) {
+            continue;
+        }
+        // Growth needs at least a day between the first sample in the period and the latest
+        const first = history.samples.find(s => s.timestamp >= periodStart) ?? latest;
+        const elapsed = latest.timestamp - first.timestamp;
+        trends.push({
+            repositoryPath: history.repositoryPath,
+            repositoryName: history.repositoryName,
+            latest,
+            staleGrowthPerWeek: elapsed >= dayMs ? (latest.staleBranches - first.staleBranches) * 7 * dayMs / elapsed : 0,
+            deleted: history.deletions.filter(d => d.day >= startOfDay(periodStart)).reduce((sum, d) => sum + d.count, 0)
+        });
+    }
+    return trends.sort((a, b) => b.staleGrowthPerWeek - a.staleGrowthPerWeek || b.latest.staleBranches - a.latest.staleBranches);
+}
+
+/**
+ * Scan counts and deletions per repository, stored in global state so the
+ * history survives reloads and is shared by every window
+ */
+export class BranchHistory {
+    private static readonly storageKey = 'gitBranchPruner.branchHistory';
+
+    constructor(private readonly state: vscode.Memento) {}
+
+    /**
+     * Get the history of every repository that was ever recorded
+     */
+    public getAll(): RepositoryHistory[] {
+        return this.state.get<RepositoryHistory[]>(BranchHistory.storageKey, []);
+    }
+
+    /**
+     * Get the history of one repository
+     */
+    public get(repositoryPath: string): RepositoryHistory | undefined {
+        return this.getAll().find(history => history.repositoryPath === repositoryPath);
+    }
+
+    /**
+     * Record the counts of finished scans
+     */
+    public async recordScans(scans: RepositoryScan[]): Promise<void> {
+        const histories = new Map(this.getAll().map(history => [history.repositoryPath, history]));
+        for (const scan of scans) {
+            const updated = addScan(histories.get(scan.repositoryPath), scan);
+            if (updated) {
+                histories.set(scan.repositoryPath, updated);
+            }
+        }
+        await this.state.update(BranchHistory.storageKey, [...histories.values()]);
+    }
+
+    /**
+     * Record deleted branches, counted per repository and day
+     */
+    public async recordDeletions(branches: StaleBranch[], now: number = Date.now()): Promise<void> {
+        if (branches.length === 0) {
+            return;
+        }
+        const histories = new Map(this.getAll().map(history => [history.repositoryPath, history]));
+        for (const repositoryPath of new Set(branches.map(b => b.repositoryPath))) {
+            const deleted = branches.filter(b => b.repositoryPath === repositoryPath);
+            histories.set(repositoryPath, addDeletions(histories.get(repositoryPath), deleted[0], deleted.length, now));
+        }
+        await this.state.update(BranchHistory.storageKey, [...histories.values()]);
+    }
+}
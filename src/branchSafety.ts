@@ -0,0 +1,107 @@
+import * as path from 'path';
+import { SimpleGit } from 'simple-git';
+import { listWorktrees, Worktree } from './protectedBranches';
+
+/**
+ * Branch-local state that deleting a branch would disturb
+ * - worktree: the branch is checked out, so git refuses to delete it and any
+ *   uncommitted or unsaved work there is tied to it
+ * - stash: a stash was made on the branch or mentions it
+ * - checkFailed: git could not be asked, so the branch is not known to be safe
+ * - hookVeto: the repository's beforePrune hook asked to keep the branch
+ * - hookFailed: the beforePrune hook could not be run or timed out
+ * - hookNotApproved: the repository has hooks that were not approved to run
+ */
+export type BranchHazardKind = 'worktree' | 'stash' | 'checkFailed' | 'hookVeto' | 'hookFailed' | 'hookNotApproved';
+
+/**
+ * Something found by the pre-delete safety check. Blocking hazards stop the
+ * deletion; warnings need the user to confirm it.
+ */
+export interface BranchHazard {
+    kind: BranchHazardKind;
+    blocking: boolean;
+    message: string;
+}
+
+/**
+ * One entry of `git stash list`
+ */
+export interface StashEntry {
+    /** e.g. stash@{0} */
+    ref: string;
+    /** e.g. "WIP on feature/x: 1a2b3c4 Commit subject" or "On feature/x: message" */
+    subject: string;
+}
+
+/**
+ * List the stashes of a repository, newest first
+ */
+export async function listStashes(git: SimpleGit): Promise<StashEntry[]> {
+    const output = await git.raw(['stash', 'list', '--format=%gd%x00%gs']);
+    return output.split('\n')
+        .filter(line => line.includes('\0'))
+        .map(line => {
+            const [ref, subject] = line.split('\0');
+            return { ref, subject };
+        });
+}
+
+/**
+ * Whether a stash was made on a branch or its message mentions the branch
+ */
+export function stashReferencesBranch(stash: StashEntry, branchName: string): boolean {
+    const madeOn = /^(?:WIP on|On) ([^:]+):/.exec(stash.subject)?.[1];
+    if (madeOn === branchName) {
+        return true;
+    }
+    const escaped = branchName.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return new RegExp(`(^|[\\s'"\`(])${escaped}($|[\\s'"\`):,.])`).test(stash.subject.substring(stash.subject.indexOf(':') + 1));
+}
+
+/**
+ * Check a branch for state that deleting it would disturb
+ *
+ * @param unsavedFiles Absolute paths of files with unsaved changes in an editor
+ */
+export async function checkBranchSafety(
+    git: SimpleGit,
+    branchName: string,
+    worktrees: Worktree[],
+    stashes: StashEntry[],
+    unsavedFiles: string[] = []
+): Promise<BranchHazard[]> {
+    const hazards: BranchHazard[] = [];
+
+    for (const worktree of worktrees.filter(w => w.branch === branchName)) {
+        const details: string[] = [];
+        const status = (await git.raw(['-C', worktree.path, 'status', '--porcelain'])).trim();
+        if (status) {
+            details.push(`${status.split('\n').length} uncommitted change(s)`);
+        }
+        const unsaved = unsavedFiles.filter(file => isInside(file, worktree.path));
+        if (unsaved.length > 0) {
+            details.push(`unsaved editor(s): ${unsaved.map(file => path.basename(file)).join(', ')}`);
+        }
+        hazards.push({
+            kind: 'worktree',
+            blocking: true,
+            message: `checked out in ${worktree.path}${details.length > 0 ? ` with ${details.join(' and ')}` : ''}`
+        });
+    }
+
+    for (const stash of stashes.filter(s => stashReferencesBranch(s, branchName))) {
+        hazards.push({
+            kind: 'stash',
+            blocking: false,
+            message: `${stash.ref} belongs to this branch: "${stash.subject}"`
+        });
+    }
+
+    return hazards;
+}
+
+function isInside(file: string, directory: string): boolean {
+    const relative = path.relative(path.resolve(directory), path.resolve(file));
+    return relative !== '' && !relative.startsWith('..') && !path.isAbsolute(relative);
+}
@@ -0,0 +1,47 @@
+import { SimpleGit } from 'simple-git';
+
+/**
+ * Tip commit and upstream configuration of a local branch
+ */
+export interface BranchSnapshot {
+    sha: string;
+    upstreamRemote?: string;
+    upstreamMerge?: string;
+}
+
+/**
+ * Read a git config value, returning undefined when it is not set
+ */
+async function getConfigValue(git: SimpleGit, key: string): Promise<string | undefined> {
+    try {
+        const value = (await git.raw(['config', '--get', key])).trim();
+        return value || undefined;
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Capture the tip SHA and upstream config of a branch before it is deleted
+ */
+export async function snapshotBranch(git: SimpleGit, branchName: string): Promise<BranchSnapshot> {
+    const sha = (await git.raw(['rev-parse', '--verify', `refs/heads/${branchName}`])).trim();
+    return {
+        sha,
+        upstreamRemote: await getConfigValue(git, `branch.${branchName}.remote`),
+        upstreamMerge: await getConfigValue(git, `branch.${branchName}.merge`)
+    };
+}
+
+/**
+ * Recreate a branch at its recorded tip and restore its upstream config
+ */
+export async function restoreBranch(git: SimpleGit, branchName: string, snapshot: BranchSnapshot): Promise<void> {
+    await git.raw(['branch', branchName, snapshot.sha]);
+    if (snapshot.upstreamRemote) {
+        await git.raw(['config', `branch.${branchName}.remote`, snapshot.upstreamRemote]);
+    }
+    if (snapshot.upstreamMerge) {
+        await git.raw(['config', `branch.${branchName}.merge`, snapshot.upstreamMerge]);
+    }
+}
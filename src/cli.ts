@@ -0,0 +1,361 @@
+#!/usr/bin/env node
+import * as path from 'path';
+import { PruneRunResult, RepositoryScan, StaleBranch } from './types';
+import { BranchPruner, defaultPrunerSettings, PrunerSettings } from './pruner';
+import { describeGitFailure } from './git';
+import { FetchPolicy } from './fetchPolicy';
+import { StaleRuleId, staleRuleIds } from './staleRules';
+import { findEnclosingRepository } from './repositoryDiscovery';
+import { describeMergeStatus } from './mergeStatus';
+import { buildReport, formatReport, ReportFormat, reportFileExtensions } from './report';
+import { ArchiveMode } from './archive';
+import { describePullRequest, PullRequestProviderId, PullRequestSettings } from './pullRequests';
+import { describeTrackingRef } from './upstreamHistory';
+
+const usage = `Usage: git-branch-pruner <scan|prune> [options] [path...]
+
+Find local branches that are stale by the same rules as the VS Code extension.
+Each path may be anywhere inside a repository; the default is the current directory.
+
+Commands:
+  scan                      List stale branches
+  prune                     Delete stale branches
+
+Options:
+  --json                    Print the result as JSON
+  --dry-run                 With prune, list what would be deleted without deleting
+  --force                   With prune, also delete branches with commits that are not on the default branch
+                            or with stashes made on them
+  --archive <mode>          With prune, keep each branch in an archive ref (namespace) or a bundle before deleting it
+  --archive-namespace <ref> Namespace for --archive namespace; YYYY, MM and DD become the date
+  --audit-log <file>        With prune, append every deleted branch to this JSON Lines file
+  --run-hooks               With prune, run the beforePrune and afterPrune hooks of .gitbranchpruner.json.
+                            Without it, branches of repositories with hooks are kept
+  --no-hooks                With prune, ignore the hooks of .gitbranchpruner.json and prune without them
+  --fail-on-stale           With scan, exit with code 2 when stale branches are found
+  --report <format>         With scan, print a stale branch report as json, markdown or csv
+  --rules <list>            Comma separated rules: upstreamGone, inactive, merged, noRecentCheckout
+  --combine <or|and>        Flag branches matching any (or) or all (and) rules
+  --inactive-days <n>       Days without commits for the inactive rule
+  --no-checkout-days <n>    Days without a checkout for the noRecentCheckout rule
+  --protect <pattern>       Never prune branches matching a glob or /regex/; repeatable
+  --fetch <policy>          always, ifOlderThan or never
+  --fetch-max-age <n>       Minutes a fetch stays fresh with --fetch ifOlderThan
+  --timeout <seconds>       Kill git processes that produce no output for this long
+  --pr-provider <provider>  Look up pull requests: off, auto, github, gitlab, bitbucket or azureDevOps.
+                            Tokens are read from GITHUB_TOKEN, GITLAB_TOKEN, BITBUCKET_TOKEN and AZURE_DEVOPS_TOKEN
+  --pr-base-url <url>       API base URL of a self-hosted provider
+  --verbose                 Log every git decision to stderr
+  -h, --help                Show this help`;
+
+const fetchPolicies: FetchPolicy[] = ['always', 'ifOlderThan', 'never'];
+const pullRequestProviders: PullRequestSettings['provider'][] = ['off', 'auto', 'github', 'gitlab', 'bitbucket', 'azureDevOps'];
+
+/**
+ * Thrown for invalid command line arguments
+ */
+export class UsageError extends Error {}
+
+/**
+ * Parsed command line
+ */
+export interface CliOptions {
+    command: 'scan' | 'prune' | 'help';
+    paths: string[];
+    json: boolean;
+    dryRun: boolean;
+    force: boolean;
+    runHooks: boolean;
+    noHooks: boolean;
+    failOnStale: boolean;
+    /** Print a report in this format instead of the scan results */
+    report?: ReportFormat;
+    /** Archive branches in this way before deleting them */
+    archive?: ArchiveMode;
+    verbose: boolean;
+    settings: PrunerSettings;
+}
+
+/**
+ * Result of `prune`, also printed with `--json`
+ */
+export interface CliPruneResult extends PruneRunResult {
+    repositories: RepositoryScan[];
+}
+
+/**
+ * Parse command line arguments, excluding the node executable and script
+ */
+export function parseArguments(args: string[]): CliOptions {
+    const settings: PrunerSettings = {
+        ...defaultPrunerSettings,
+        staleRules: { ...defaultPrunerSettings.staleRules },
+        protectedBranches: []
+    };
+    const options: CliOptions = {
+        command: 'help',
+        paths: [],
+        json: false,
+        dryRun: false,
+        force: false,
+        runHooks: false,
+        noHooks: false,
+        failOnStale: false,
+        verbose: false,
+        settings
+    };
+    let command: string | undefined;
+
+    for (let i = 0; i < args.length; i++) {
+        const arg = args[i];
+        const value = (): string => {
+            const next = args[++i];
+            if (next === undefined) {
+                throw new UsageError(`${arg} needs a value`);
+            }
+            return next;
+        };
+
+        switch (arg) {
+            case '-h':
+            case '--help':
+                return { ...options, command: 'help' };
+            case '--json': options.json = true; break;
+            case '--dry-run': options.dryRun = true; break;
+            case '--force': options.force = true; break;
+            case '--run-hooks': options.runHooks = true; break;
+            case '--no-hooks': options.noHooks = true; break;
+            case '--fail-on-stale': options.failOnStale = true; break;
+            case '--verbose': options.verbose = true; break;
+            case '--report': {
+                const format = value();
+                if (!Object.keys(reportFileExtensions).includes(format)) {
+                    throw new UsageError(`--report must be one of ${Object.keys(reportFileExtensions).join(', ')}`);
+                }
+                options.report = format as ReportFormat;
+                break;
+            }
+            case '--archive': {
+                const mode = value();
+                if (mode !== 'namespace' && mode !== 'bundle') {
+                    throw new UsageError(`--archive must be "namespace" or "bundle"`);
+                }
+                options.archive = mode;
+                settings.archive = { ...settings.archive, mode };
+                break;
+            }
+            case '--archive-namespace': {
+                const namespace = value();
+                if (!namespace.startsWith('refs/') || namespace.startsWith('refs/heads/')) {
+                    throw new UsageError(`--archive-namespace must start with refs/ and not be under refs/heads/`);
+                }
+                settings.archive = { ...settings.archive, namespace };
+                break;
+            }
+            case '--rules': {
+                const rules = value().split(',').map(rule => rule.trim()).filter(rule => rule);
+                const unknown = rules.filter(rule => !staleRuleIds.includes(rule as StaleRuleId));
+                if (unknown.length > 0 || rules.length === 0) {
+                    throw new UsageError(`Unknown rule(s) "${unknown.join(', ')}", expected ${staleRuleIds.join(', ')}`);
+                }
+                settings.staleRules.rules = rules as StaleRuleId[];
+                break;
+            }
+            case '--combine': {
+                const combination = value();
+                if (combination !== 'or' && combination !== 'and') {
+                    throw new UsageError(`--combine must be "or" or "and"`);
+                }
+                settings.staleRules.combination = combination;
+                break;
+            }
+            case '--inactive-days': settings.staleRules.inactiveDays = parseCount(arg, value()); break;
+            case '--no-checkout-days': settings.staleRules.noCheckoutDays = parseCount(arg, value()); break;
+            case '--protect': settings.protectedBranches.push(value()); break;
+            case '--fetch': {
+                const policy = value();
+                if (!fetchPolicies.includes(policy as FetchPolicy)) {
+                    throw new UsageError(`--fetch must be one of ${fetchPolicies.join(', ')}`);
+                }
+                settings.fetchPolicy = policy as FetchPolicy;
+                break;
+            }
+            case '--fetch-max-age': settings.fetchMaxAgeMinutes = parseCount(arg, value()); break;
+            case '--timeout': settings.gitTimeoutSeconds = parseCount(arg, value()); break;
+            case '--pr-provider': {
+                const provider = value();
+                if (!pullRequestProviders.includes(provider as PullRequestSettings['provider'])) {
+                    throw new UsageError(`--pr-provider must be one of ${pullRequestProviders.join(', ')}`);
+                }
+                settings.pullRequests = { ...settings.pullRequests, provider: provider as PullRequestSettings['provider'], tokens: readPullRequestTokens() };
+                break;
+            }
+            case '--audit-log': settings.auditLogPath = path.resolve(value()); break;
+            case '--pr-base-url': settings.pullRequests = { ...settings.pullRequests, baseUrl: value() }; break;
+            default:
+                if (arg.startsWith('-')) {
+                    throw new UsageError(`Unknown option ${arg}`);
+                }
+                if (command === undefined) {
+                    command = arg;
+                } else {
+                    options.paths.push(arg);
+                }
+        }
+    }
+
+    if (command === undefined) {
+        return options;
+    }
+    if (command !== 'scan' && command !== 'prune') {
+        throw new UsageError(`Unknown command "${command}"`);
+    }
+    if (settings.protectedBranches.length === 0) {
+        settings.protectedBranches = defaultPrunerSettings.protectedBranches;
+    }
+    return { ...options, command };
+}
+
+function parseCount(option: string, value: string): number {
+    const count = Number(value);
+    if (!Number.isInteger(count) || count < 0) {
+        throw new UsageError(`${option} must be a whole number, got "${value}"`);
+    }
+    return count;
+}
+
+/**
+ * Resolve paths to the root of the repository each one is in, without duplicates
+ */
+function resolveRepositories(paths: string[], cwd: string): string[] {
+    const repositories = new Set<string>();
+    for (const target of paths.length > 0 ? paths : ['.']) {
+        const repositoryPath = findEnclosingRepository(path.resolve(cwd, target));
+        if (!repositoryPath) {
+            throw new UsageError(`${target} is not inside a git repository`);
+        }
+        repositories.add(repositoryPath);
+    }
+    return [...repositories];
+}
+
+/**
+ * Read provider tokens from the environment
+ */
+function readPullRequestTokens(): Partial<Record<PullRequestProviderId, string>> {
+    return {
+        github: process.env.GITHUB_TOKEN || undefined,
+        gitlab: process.env.GITLAB_TOKEN || undefined,
+        bitbucket: process.env.BITBUCKET_TOKEN || undefined,
+        azureDevOps: process.env.AZURE_DEVOPS_TOKEN || undefined
+    };
+}
+
+function formatBranch(branch: StaleBranch): string {
+    const reasons = branch.matchedRules.map(m => m.reason).join('; ');
+    const pullRequest = branch.pullRequest ? `, ${describePullRequest(branch.pullRequest)}` : '';
+    return `${branch.name} (${describeMergeStatus(branch.mergeStatus)}${pullRequest}) - ${reasons}`;
+}
+
+function formatScan(scan: RepositoryScan): string[] {
+    const lines = [`${scan.repositoryName} (${scan.repositoryPath})`];
+    if (scan.error) {
+        lines.push(`  scan failed: ${describeGitFailure(scan.error)}: ${scan.error.message}`);
+        return lines;
+    }
+    if (scan.staleBranches.length === 0) {
+        lines.push('  no stale branches');
+    }
+    lines.push(...scan.staleBranches.map(branch => `  ${formatBranch(branch)}`));
+    lines.push(...scan.skippedBranches.map(branch => `  skipped ${branch.name}: ${branch.reason}`));
+    lines.push(...(scan.renamedUpstreams ?? []).map(renamed =>
+        `  renamed upstream ${renamed.branch}: ${describeTrackingRef(renamed.from)} -> ${describeTrackingRef(renamed.to)} (git branch --set-upstream-to=${describeTrackingRef(renamed.to)} ${renamed.branch})`));
+    return lines;
+}
+
+/**
+ * Run the CLI and return the process exit code: 0 on success, 1 on errors
+ * and 2 for `scan --fail-on-stale` when stale branches were found
+ */
+export async function main(args: string[], cwd: string = process.cwd()): Promise<number> {
+    let options: CliOptions;
+    let repositories: string[];
+    try {
+        options = parseArguments(args);
+        if (options.command === 'help') {
+            process.stdout.write(`${usage}\n`);
+            return 0;
+        }
+        repositories = resolveRepositories(options.paths, cwd);
+    } catch (error) {
+        if (error instanceof UsageError) {
+            process.stderr.write(`git-branch-pruner: ${error.message}\n\n${usage}\n`);
+            return 1;
+        }
+        throw error;
+    }
+
+    const log = options.verbose ? (message: string) => process.stderr.write(`${message}\n`) : undefined;
+    const pruner = new BranchPruner(options.settings, log);
+    const scans: RepositoryScan[] = [];
+    for (const repositoryPath of repositories) {
+        scans.push(await pruner.scanRepository(repositoryPath));
+    }
+    const scanFailed = scans.some(scan => scan.error);
+    const staleBranches = scans.flatMap(scan => scan.staleBranches);
+
+    if (options.command === 'scan') {
+        if (options.report) {
+            process.stdout.write(formatReport(buildReport(scans), options.report));
+        } else {
+            process.stdout.write(options.json
+                ? `${JSON.stringify({ repositories: scans }, null, 2)}\n`
+                : `${scans.flatMap(formatScan).join('\n')}\n`);
+        }
+        if (scanFailed) {
+            return 1;
+        }
+        return options.failOnStale && staleBranches.length > 0 ? 2 : 0;
+    }
+
+    // Unmerged work and branches with stashes are only deleted when asked for explicitly
+    const result: CliPruneResult = {
+        repositories: scans,
+        ...await pruner.prune(staleBranches, {
+            dryRun: options.dryRun,
+            force: options.force,
+            blockOnWarnings: !options.force,
+            skipHooks: options.noHooks,
+            // Hooks are commands from a file in the repository, so they only run when asked for
+            approveHooks: async () => options.runHooks,
+            archive: options.archive === 'bundle' ? 'bundle' : options.archive ? 'archiveRef' : undefined
+        })
+    };
+
+    if (options.json) {
+        process.stdout.write(`${JSON.stringify(result, null, 2)}\n`);
+    } else {
+        const lines = scans.filter(scan => scan.error).flatMap(formatScan);
+        lines.push(...result.wouldDelete.map(b => `Would delete ${b.repositoryName}/${formatBranch(b)}`));
+        lines.push(...result.deleted.map(b => `${b.archivedAs ? 'Archived' : 'Deleted'} ${b.repositoryName}/${formatBranch(b)}${b.archivedAs ? ` in ${b.archivedAs}` : ''}`));
+        lines.push(...result.failed.map(f => `Failed to delete ${f.branch.repositoryName}/${f.branch.name}: ${f.error}`));
+        lines.push(...result.skippedUnmerged.map(b => `Kept ${b.repositoryName}/${formatBranch(b)} (use --force to delete)`));
+        lines.push(...result.blocked.map(({ branch, hazards }) => `Kept ${branch.repositoryName}/${branch.name}: ${hazards.map(h => h.message).join('; ')}`));
+        lines.push(...result.hookFailures.map(f => `${f.hook} hook failed for ${f.branch.repositoryName}/${f.branch.name}: ${f.error}`));
+        if (lines.length === 0) {
+            lines.push('No stale branches found');
+        }
+        process.stdout.write(`${lines.join('\n')}\n`);
+    }
+    return scanFailed || result.failed.length > 0 || result.hookFailures.length > 0 ? 1 : 0;
+}
+
+if (require.main === module) {
+    main(process.argv.slice(2)).then(
+        code => { process.exitCode = code; },
+        error => {
+            process.stderr.write(`git-branch-pruner: ${error}\n`);
+            process.exitCode = 1;
+        }
+    );
+}
@@ -1,43 +1,222 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
-import { simpleGit, SimpleGit } from 'simple-git';
-import * as fs from 'fs';
+import { SimpleGit } from 'simple-git';
+import { GitExtension, PruneRunResult, RepositoryScan, SkippedBranch, StaleBranch } from './types';
+import { createGit, describeGitFailure, GitOptions } from './git';
+import { runWithConcurrency } from './scanScheduler';
+import { FetchPolicy } from './fetchPolicy';
+import { ScanCache } from './scanCache';
+import { StaleStatusBar } from './statusBar';
+import { RefsWatcher } from './refsWatcher';
+import { StaleBranchesProvider, StaleTreeNode } from './staleBranchesView';
+import { PrunePreviewOptions, showPrunePreview } from './prunePreview';
+import { PruneJournal, PruneJournalEntry } from './pruneJournal';
+import { restoreBranch } from './branchSnapshot';
+import { ArchivedBranch, ArchiveMode, ArchiveTarget, defaultArchiveSettings, expandNamespace } from './archive';
+import { BranchPruner, defaultPrunerSettings, PruneOptions, PrunerSettings, ScanOptions } from './pruner';
+import { RemotePruneResult, RemoteScan } from './remoteBranches';
+import { defaultPullRequestSettings, describePullRequest, PullRequestProviderId, PullRequestSettings } from './pullRequests';
+import { GitBranchPrunerApi, parsePruneCommandArgs, PruneCommandArgs } from './api';
+import { matchesPattern } from './patterns';
+import { addToSummary, AutoPruneSummary, isSummaryDue, selectAutoPruneBranches } from './autoPrune';
+import { applyIgnoreRules, describeIgnoreRule, IgnoreList, IgnoreRule } from './ignoreList';
+import { parseDuration, SnoozeState, tomorrowMorning } from './snooze';
+import { StaleRuleId } from './staleRules';
+import { discoverRepositories, DiscoveryOptions, findEnclosingRepository } from './repositoryDiscovery';
+import { describeMergeStatus, isBranchSafeToDelete } from './mergeStatus';
+import { buildReport, formatReport, ReportFormat, reportFileExtensions, StaleBranchReport } from './report';
+import { BranchHistory } from './branchHistory';
+import { BranchDashboard } from './branchDashboard';
+import { Logger, LogLevel } from './logger';
+import { AuditEntry, AuditFilter, AuditLog, filterAuditEntries, formatAuditEntry } from './auditLog';
+import { describeTrackingRef, RenamedUpstream } from './upstreamHistory';
+import { PruneHooksConfig, pruneHookNames, resolveHook } from './pruneHooks';
+import { repositoryConfigFileName } from './repositoryConfig';
 
 /**
- * Interface representing a stale branch that can be pruned
+ * Format a stale branch for confirmation dialogs and the output channel,
+ * including why it was flagged and how it relates to the default branch
  */
-interface StaleBranch {
-    name: string;
-    repositoryPath: string;
-    repositoryName: string;
+function formatStaleBranch(branch: StaleBranch): string {
+    const reasons = branch.matchedRules.map(m => m.reason);
+    const status = [describeMergeStatus(branch.mergeStatus), ...branch.pullRequest ? [describePullRequest(branch.pullRequest)] : []];
+    return `${branch.repositoryName}: ${branch.name} (${status.join(', ')}) - ${reasons.join('; ')}`;
+}
+
+/**
+ * Split branches by repository, so each group can use that repository's settings
+ */
+function groupByRepository<T extends { repositoryPath: string }>(items: T[]): Map<string, T[]> {
+    const groups = new Map<string, T[]>();
+    for (const item of items) {
+        groups.set(item.repositoryPath, [...groups.get(item.repositoryPath) ?? [], item]);
+    }
+    return groups;
+}
+
+/**
+ * What a prune or identify run does. Each command builds its own options
+ * instead of changing the user's settings for the duration of the run.
+ */
+interface PruneRunOptions {
+    /** Repositories scanned when `repositories` is not given */
+    scope: 'workspace' | 'activeRepository';
+    /** Only list the stale branches */
+    identifyOnly: boolean;
+    /** Repository paths to scan instead of the scope */
+    repositories?: string[];
+    /** Flag branches with these rules instead of each repository's configured rules */
+    rules?: StaleRuleId[];
+    /** Only consider branches matching one of these globs or `/regex/` patterns */
+    branches?: string[];
+}
+
+/**
+ * What the scan of a prune or identify run found
+ */
+interface PruneRunScan {
+    report: StaleBranchReport;
+    staleBranches: StaleBranch[];
+    skippedBranches: (SkippedBranch & { repositoryName: string })[];
+}
+
+/**
+ * Branches the user chose to delete, and those to archive before deleting
+ */
+interface DeletionPlan {
+    delete: StaleBranch[];
+    archive: StaleBranch[];
+    /** How each repository keeps its archived branches */
+    archiveTargets: Map<string, ArchiveTarget>;
 }
 
 /**
  * Main extension class that handles git branch pruning functionality
  */
 export class GitBranchPruner {
-    private statusBarItem: vscode.StatusBarItem;
+    private static readonly autoPruneSummaryKey = 'gitBranchPruner.autoPruneSummary';
+    private static readonly lastArchiveCleanupKey = 'gitBranchPruner.lastArchiveCleanup';
+    /** Hook commands approved per repository, so changed commands are asked about again */
+    private static readonly approvedHooksKey = 'gitBranchPruner.approvedHooks';
+    private static readonly pullRequestProviders: { id: PullRequestProviderId; label: string }[] = [
+        { id: 'github', label: 'GitHub' },
+        { id: 'gitlab', label: 'GitLab' },
+        { id: 'bitbucket', label: 'Bitbucket' },
+        { id: 'azureDevOps', label: 'Azure DevOps' }
+    ];
+    
+    private statusBar: StaleStatusBar;
     private autoScanTimer: NodeJS.Timeout | undefined;
-    private outputChannel: vscode.OutputChannel;
-    private lastNotificationTime: number = 0;
-    private notificationSnoozeUntil: number = 0;
+    private archiveCleanupTimer: NodeJS.Timeout | undefined;
+    private outputChannel: vscode.LogOutputChannel;
+    private logger: Logger;
+    private snoozeState: SnoozeState;
+    private ignoreList: IgnoreList;
+    private staleBranchesProvider: StaleBranchesProvider;
+    private staleBranchesView: vscode.TreeView<StaleTreeNode>;
+    private pruneJournal: PruneJournal;
+    private autoScanAbortController: AbortController | undefined;
+    private scanCache: ScanCache;
+    private refsWatcher: RefsWatcher;
+    private readonly onDidScanEmitter = new vscode.EventEmitter<RepositoryScan[]>();
+    private readonly onDidPruneEmitter = new vscode.EventEmitter<PruneRunResult>();
+    private pullRequestTokens: PullRequestSettings['tokens'] = {};
+    private branchHistory: BranchHistory;
+    private dashboard: BranchDashboard;
+    /** Renamed upstreams already offered for re-pointing in this session, so auto-scans don't ask again */
+    private readonly offeredRepoints = new Set<string>();
     
     constructor(private context: vscode.ExtensionContext) {
-        this.outputChannel = vscode.window.createOutputChannel('Git Branch Pruner');
-        this.statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 100);
+        this.outputChannel = vscode.window.createOutputChannel('Git Branch Pruner', { log: true });
+        this.logger = new Logger(this.outputChannel, vscode.workspace.getConfiguration('gitBranchPruner').get<LogLevel>('logLevel', 'info'));
+        this.statusBar = new StaleStatusBar();
+        this.refsWatcher = new RefsWatcher(repositoryPath => this.getGitOptions(repositoryPath));
+        this.staleBranchesProvider = new StaleBranchesProvider();
+        this.staleBranchesView = vscode.window.createTreeView('gitBranchPruner.staleBranches', {
+            treeDataProvider: this.staleBranchesProvider,
+            showCollapseAll: true
+        });
+        this.staleBranchesView.onDidChangeCheckboxState(event => {
+            this.staleBranchesProvider.updateCheckboxes(event.items);
+        });
+        this.pruneJournal = new PruneJournal(context.globalState);
+        this.snoozeState = new SnoozeState(context.globalState);
+        this.ignoreList = new IgnoreList(context.globalState);
+        this.scanCache = new ScanCache(context.workspaceState);
+        this.branchHistory = new BranchHistory(context.globalState);
+        this.dashboard = new BranchDashboard(this.branchHistory, (repositoryPath, identifyOnly) => {
+            this.startPruneRun({ ...this.getRunOptions({}), repositories: [repositoryPath], identifyOnly });
+        });
+        // Show the last known results right away; the next scan refreshes them
+        for (const scan of this.scanCache.getAll()) {
+            this.staleBranchesProvider.setScan(scan);
+        }
         this.setupStatusBar();
         this.setupAutoScan();
         this.setupConfigurationWatcher();
+        this.setupArchiveCleanup();
+        this.setupPullRequestTokens();
+        this.expireJournal();
     }
 
     /**
-     * Set up the status bar item with click handler
+     * Keep the status bar badge in sync with the scan cache, the active
+     * editor's repository and ref changes on disk
      */
     private setupStatusBar(): void {
-        this.statusBarItem.text = "$(git-branch) Prune";
-        this.statusBarItem.tooltip = "Click to manage stale git branches";
-        this.statusBarItem.command = 'gitBranchPruner.showMenu';
-        this.statusBarItem.show();
+        this.statusBar.setScans(this.scanCache.getAll());
+        this.updateActiveRepository();
+        
+        this.context.subscriptions.push(
+            this.scanCache.onDidChange(() => this.statusBar.setScans(this.scanCache.getAll())),
+            vscode.window.onDidChangeActiveTextEditor(() => this.updateActiveRepository()),
+            vscode.workspace.onDidChangeConfiguration(event => {
+                if (event.affectsConfiguration('gitBranchPruner.statusBarWarningThreshold')) {
+                    this.statusBar.setScans(this.scanCache.getAll());
+                }
+            }),
+            this.refsWatcher.onDidChangeRefs(repositoryPath => this.rescanAfterRefsChange(repositoryPath))
+        );
+        this.refsWatcher.watch(this.scanCache.getAll().map(scan => scan.repositoryPath));
+    }
+
+    /**
+     * Point the status bar at the repository of the active editor
+     */
+    private updateActiveRepository(): void {
+        const document = vscode.window.activeTextEditor?.document;
+        if (!document || document.uri.scheme !== 'file') {
+            return;
+        }
+        const repositoryPath = findEnclosingRepository(path.dirname(document.uri.fsPath));
+        this.statusBar.setActiveRepository(repositoryPath ?? undefined);
+    }
+
+    /**
+     * Re-evaluate a repository after its refs changed on disk, e.g. after a
+     * branch was deleted or fetched from a terminal. Never fetches.
+     */
+    private async rescanAfterRefsChange(repositoryPath: string): Promise<void> {
+        this.logger.debug(`Refs changed in ${path.basename(repositoryPath)}, rescanning locally`);
+        await this.rescanWithoutFetch([repositoryPath]);
+    }
+
+    /**
+     * Re-evaluate repositories from the refs on disk and update the view and cache
+     */
+    private async rescanWithoutFetch(repositoryPaths: string[]): Promise<void> {
+        const scans: RepositoryScan[] = [];
+        for (const repositoryPath of repositoryPaths) {
+            const scan = await this.getStaleBranches(repositoryPath, { skipFetch: true });
+            if (!scan.error) {
+                this.staleBranchesProvider.setScan(scan);
+                await this.scanCache.set(scan);
+                scans.push(scan);
+            }
+        }
+        if (scans.length > 0) {
+            this.onDidScanEmitter.fire(scans);
+        }
     }
 
     /**
@@ -47,23 +226,23 @@ export class GitBranchPruner {
         const config = vscode.workspace.getConfiguration('gitBranchPruner');
         const intervalMinutes = config.get<number>('autoScanInterval', 0);
         
-        this.outputChannel.appendLine(`Setting up auto-scan: interval = ${intervalMinutes} minutes`);
+        this.logger.debug(`Setting up auto-scan: interval = ${intervalMinutes} minutes`);
         
         if (this.autoScanTimer) {
             clearInterval(this.autoScanTimer);
-            this.outputChannel.appendLine(`Cleared existing auto-scan timer`);
+            this.logger.debug(`Cleared existing auto-scan timer`);
         }
         
         if (intervalMinutes > 0) {
             const intervalMs = intervalMinutes * 60 * 1000;
             this.autoScanTimer = setInterval(() => {
-                this.outputChannel.appendLine(`Auto-scan timer triggered`);
+                this.logger.debug(`Auto-scan timer triggered`);
                 this.runAutomaticScan();
             }, intervalMs);
             
-            this.outputChannel.appendLine(`Auto-scan scheduled every ${intervalMinutes} minutes (${intervalMs}ms)`);
+            this.logger.info(`Auto-scan scheduled every ${intervalMinutes} minutes (${intervalMs}ms)`);
         } else {
-            this.outputChannel.appendLine(`Auto-scan disabled (interval = 0)`);
+            this.logger.info(`Auto-scan disabled (interval = 0)`);
         }
     }
 
@@ -75,6 +254,9 @@ export class GitBranchPruner {
             if (event.affectsConfiguration('gitBranchPruner.autoScanInterval')) {
                 this.setupAutoScan();
             }
+            if (event.affectsConfiguration('gitBranchPruner.logLevel')) {
+                this.logger.setLevel(vscode.workspace.getConfiguration('gitBranchPruner').get<LogLevel>('logLevel', 'info'));
+            }
         });
     }
 
@@ -82,21 +264,24 @@ export class GitBranchPruner {
      * Run automatic scanning and notify if stale branches found
      */
     public async runAutomaticScan(): Promise<void> {
-        this.outputChannel.appendLine(`=== Starting automatic scan ===`);
+        this.logger.debug(`=== Starting automatic scan ===`);
         
-        // Check if we're in snooze period
+        // Check if we're in snooze period, which may have been set in another window
         const now = Date.now();
-        if (now < this.notificationSnoozeUntil) {
-            const snoozeRemaining = Math.round((this.notificationSnoozeUntil - now) / (60 * 1000));
-            this.outputChannel.appendLine(`Auto-scan skipped: snoozed for ${snoozeRemaining} more minutes`);
+        const snoozedUntil = this.snoozeState.getSnoozedUntil();
+        if (snoozedUntil) {
+            const snoozeRemaining = Math.round((snoozedUntil - now) / (60 * 1000));
+            this.logger.info(`Auto-scan skipped: snoozed for ${snoozeRemaining} more minutes`);
             return;
         }
         
         try {
-            this.outputChannel.appendLine('Running automatic scan for stale branches...');
+            this.logger.info('Running automatic scan for stale branches...');
             
             // Get all workspace repositories
             const repositories = await this.getWorkspaceGitRepositories();
+            this.staleBranchesProvider.removeRepositories(await this.scanCache.retain(repositories));
+            this.refsWatcher.retain(repositories);
             if (repositories.length === 0) {
                 return;
             }
@@ -104,21 +289,45 @@ export class GitBranchPruner {
             const reposWithStaleBranches: {[repoName: string]: StaleBranch[]} = {};
             let totalStaleBranches = 0;
 
-            // Scan silently
-            for (const repo of repositories) {
-                const staleBranches = await this.getStaleBranches(repo);
+            // Scan silently, aborting any scan still running from the previous timer tick
+            this.autoScanAbortController?.abort();
+            const abortController = new AbortController();
+            this.autoScanAbortController = abortController;
+            const scans = await this.scanRepositories(repositories, { signal: abortController.signal });
+            if (this.autoScanAbortController === abortController) {
+                this.autoScanAbortController = undefined;
+            }
+            if (abortController.signal.aborted) {
+                return;
+            }
+            await this.recordHistory(scans);
+            this.offerUpstreamRepoint(scans);
+
+            // Branches handled by auto-prune don't need a human decision
+            const handled = await this.autoPrune(scans.flatMap(scan => scan.staleBranches));
+            for (const scan of scans) {
+                if (this.snoozeState.getSnoozedUntil(scan.repositoryPath)) {
+                    this.logger.info(`Not notifying about ${scan.repositoryName}: repository is snoozed`);
+                    continue;
+                }
+                const staleBranches = scan.staleBranches.filter(branch => !handled.has(branch));
                 if (staleBranches.length > 0) {
-                    const repoName = path.basename(repo);
-                    reposWithStaleBranches[repoName] = staleBranches;
+                    reposWithStaleBranches[scan.repositoryName] = staleBranches;
                     totalStaleBranches += staleBranches.length;
                 }
             }
+            await this.showAutoPruneSummaryIfDue();
 
-            if (totalStaleBranches > 0) {
+            // Every open window scans on its own timer; only one of them should notify
+            const intervalMs = vscode.workspace.getConfiguration('gitBranchPruner').get<number>('autoScanInterval', 0) * 60 * 1000;
+            if (totalStaleBranches > 0 && Date.now() - this.snoozeState.getLastNotificationTime() < intervalMs / 2) {
+                this.logger.debug('Not notifying: another window showed a notification recently');
+            } else if (totalStaleBranches > 0) {
+                await this.snoozeState.setLastNotificationTime();
                 await this.showStaleFoundNotification(reposWithStaleBranches, totalStaleBranches);
             }
         } catch (error) {
-            this.outputChannel.appendLine(`Auto-scan failed: ${error}`);
+            this.logger.error(`Auto-scan failed: ${error}`);
         }
     }
 
@@ -126,37 +335,49 @@ export class GitBranchPruner {
      * Get all git repositories in the current workspace
      */
     private async getWorkspaceGitRepositories(): Promise<string[]> {
-        const repositories: string[] = [];
-        
         if (!vscode.workspace.workspaceFolders) {
-            return repositories;
+            return [];
         }
         
-        for (const folder of vscode.workspace.workspaceFolders) {
-            const repoPath = await this.findGitRepository(folder.uri.fsPath);
-            if (repoPath) {
-                repositories.push(repoPath);
-            }
-        }
+        const config = vscode.workspace.getConfiguration('gitBranchPruner');
+        const options: DiscoveryOptions = {
+            maxDepth: config.get<number>('discovery.maxDepth', 0),
+            exclude: config.get<string[]>('discovery.exclude', ['**/node_modules/**']),
+            includeSubmodules: config.get<boolean>('discovery.includeSubmodules', false),
+            git: { timeoutMs: config.get<number>('gitTimeoutSeconds', 60) * 1000 }
+        };
+        const knownRepositories = config.get<boolean>('discovery.useGitExtension', false)
+            ? await this.getGitExtensionRepositories()
+            : [];
         
+        const repositories = await discoverRepositories(
+            vscode.workspace.workspaceFolders.map(folder => folder.uri.fsPath),
+            options,
+            knownRepositories
+        );
+        this.logger.debug(`Discovered ${repositories.length} repositories (depth ${options.maxDepth}, submodules ${options.includeSubmodules ? 'on' : 'off'})`);
         return repositories;
     }
 
     /**
-     * Find git repository starting from a given path
+     * Get the repositories already opened by VS Code's built-in git extension
      */
-    private async findGitRepository(startPath: string): Promise<string | null> {
-        let currentPath = startPath;
+    private async getGitExtensionRepositories(): Promise<string[]> {
+        const extension = vscode.extensions.getExtension<GitExtension>('vscode.git');
+        if (!extension) {
+            return [];
+        }
         
-        while (currentPath !== path.dirname(currentPath)) {
-            const gitPath = path.join(currentPath, '.git');
-            if (fs.existsSync(gitPath)) {
-                return currentPath;
+        try {
+            const gitExtension = extension.isActive ? extension.exports : await extension.activate();
+            if (!gitExtension.enabled) {
+                return [];
             }
-            currentPath = path.dirname(currentPath);
+            return gitExtension.getAPI(1).repositories.map(repository => repository.rootUri.fsPath);
+        } catch (error) {
+            this.logger.warn(`Could not read repositories from the git extension: ${error}`);
+            return [];
         }
-        
-        return null;
     }
 
     /**
@@ -164,297 +385,1379 @@ export class GitBranchPruner {
      */
     private async getActiveRepository(): Promise<string | null> {
         const activeEditor = vscode.window.activeTextEditor;
-        this.outputChannel.appendLine(`Active editor: ${activeEditor ? 'found' : 'none'}`);
+        this.logger.trace(`Active editor: ${activeEditor ? 'found' : 'none'}`);
         
         if (!activeEditor) {
             // No active file, try to use workspace folders
             if (vscode.workspace.workspaceFolders && vscode.workspace.workspaceFolders.length > 0) {
-                const workspaceRepo = await this.findGitRepository(vscode.workspace.workspaceFolders[0].uri.fsPath);
-                this.outputChannel.appendLine(`Workspace repo fallback: ${workspaceRepo}`);
+                const workspaceRepo = findEnclosingRepository(vscode.workspace.workspaceFolders[0].uri.fsPath);
+                this.logger.trace(`Workspace repo fallback: ${workspaceRepo}`);
                 return workspaceRepo;
             }
             return null;
         }
         
         const filePath = activeEditor.document.uri.fsPath;
-        this.outputChannel.appendLine(`Active file path: ${filePath}`);
-        const repo = await this.findGitRepository(path.dirname(filePath));
-        this.outputChannel.appendLine(`Found repo from active file: ${repo}`);
+        this.logger.trace(`Active file path: ${filePath}`);
+        const repo = findEnclosingRepository(path.dirname(filePath));
+        this.logger.debug(`Found repo from active file: ${repo}`);
         return repo;
     }
 
     /**
-     * Get stale branches from a specific repository
+     * Read the settings that apply to a repository, which may differ between
+     * the folders of a multi-root workspace. Without a path, the window's settings.
      */
-    private async getStaleBranches(repositoryPath: string): Promise<StaleBranch[]> {
-        const staleBranches: StaleBranch[] = [];
-        const repositoryName = path.basename(repositoryPath);
+    private getConfiguration(repositoryPath?: string): vscode.WorkspaceConfiguration {
+        return vscode.workspace.getConfiguration('gitBranchPruner', repositoryPath ? vscode.Uri.file(repositoryPath) : undefined);
+    }
+
+    /**
+     * Build git process options from a repository's timeout setting and an optional abort signal
+     */
+    private getGitOptions(repositoryPath: string, signal?: AbortSignal): GitOptions {
+        const config = this.getConfiguration(repositoryPath);
+        return {
+            timeoutMs: config.get<number>('gitTimeoutSeconds', 60) * 1000,
+            signal
+        };
+    }
+
+    /**
+     * Scan repositories with bounded concurrency, updating the Stale Branches
+     * view as each one finishes. Aborting the signal kills running git processes.
+     * Scans with their own rules are not shown in the view or cached.
+     */
+    private async scanRepositories(repositories: string[], options: ScanOptions, onScanned?: (scan: RepositoryScan, completed: number) => void): Promise<RepositoryScan[]> {
+        const config = vscode.workspace.getConfiguration('gitBranchPruner');
+        const concurrency = config.get<number>('scanConcurrency', 4);
+        let completed = 0;
+        this.refsWatcher.watch(repositories);
         
-        try {
-            const git: SimpleGit = simpleGit(repositoryPath);
-            
-            // Fetch to ensure we have latest remote information
-            await git.fetch(['--prune']);
-            
-            // Get all local branches
-            const localBranches = await git.branchLocal();
-            
-            // Get all remote tracking branches
-            const remoteBranches = await git.branch(['-r']);
-            
-            for (const branchName of localBranches.all) {
-                // Skip current branch and main/master branches
-                if (branchName === localBranches.current || 
-                    branchName === 'main' || 
-                    branchName === 'master') {
-                    continue;
+        const scans = await runWithConcurrency(repositories, concurrency, async repo => {
+            const scan = await this.getStaleBranches(repo, options);
+            completed++;
+            // A cancelled scan says nothing about the repository, so keep the previous results
+            if (scan.error?.kind !== 'cancelled' && !options.rules) {
+                this.staleBranchesProvider.setScan(scan);
+                await this.scanCache.set(scan);
+            }
+            onScanned?.(scan, completed);
+            return scan;
+        }, options.signal);
+        
+        const finished = scans.filter((scan): scan is RepositoryScan => scan !== undefined);
+        const failed = finished.filter(scan => scan.error && scan.error.kind !== 'cancelled');
+        if (failed.length > 0) {
+            this.logger.warn(`${failed.length} repository scan(s) failed: ${failed.map(scan => `${scan.repositoryName} (${describeGitFailure(scan.error!)})`).join(', ')}`);
+        }
+        const completedScans = finished.filter(scan => scan.error?.kind !== 'cancelled');
+        if (completedScans.length > 0) {
+            this.onDidScanEmitter.fire(completedScans);
+        }
+        return finished;
+    }
+
+    /**
+     * Read the scanning and pruning settings of a repository
+     */
+    private getPrunerSettings(repositoryPath?: string): PrunerSettings {
+        const config = this.getConfiguration(repositoryPath);
+        return {
+            staleRules: {
+                rules: config.get<StaleRuleId[]>('staleRules', defaultPrunerSettings.staleRules.rules),
+                combination: config.get<'or' | 'and'>('staleRulesCombination', defaultPrunerSettings.staleRules.combination),
+                inactiveDays: config.get<number>('inactiveDays', defaultPrunerSettings.staleRules.inactiveDays),
+                noCheckoutDays: config.get<number>('noCheckoutDays', defaultPrunerSettings.staleRules.noCheckoutDays)
+            },
+            protectedBranches: config.get<string[]>('protectedBranches', defaultPrunerSettings.protectedBranches),
+            fetchPolicy: config.get<FetchPolicy>('fetchPolicy', defaultPrunerSettings.fetchPolicy),
+            fetchMaxAgeMinutes: config.get<number>('fetchMaxAgeMinutes', defaultPrunerSettings.fetchMaxAgeMinutes),
+            gitTimeoutSeconds: config.get<number>('gitTimeoutSeconds', defaultPrunerSettings.gitTimeoutSeconds),
+            archive: {
+                mode: config.get<ArchiveMode>('archive.mode', defaultArchiveSettings.mode),
+                namespace: config.get<string>('archive.namespace', defaultArchiveSettings.namespace),
+                bundleDirectory: config.get<string>('archive.bundleDirectory', defaultArchiveSettings.bundleDirectory),
+                retentionDays: config.get<number>('archive.retentionDays', defaultArchiveSettings.retentionDays)
+            },
+            pullRequests: {
+                provider: config.get<PullRequestSettings['provider']>('pullRequests.provider', defaultPullRequestSettings.provider),
+                baseUrl: config.get<string>('pullRequests.baseUrl', defaultPullRequestSettings.baseUrl),
+                tokens: this.pullRequestTokens,
+                timeoutMs: defaultPullRequestSettings.timeoutMs
+            },
+            auditLogPath: this.getAuditLog().filePath
+        };
+    }
+
+    /**
+     * The audit log, in the extension's global storage unless a path is set
+     */
+    private getAuditLog(): AuditLog {
+        const configured = vscode.workspace.getConfiguration('gitBranchPruner').get<string>('auditLog.path', '');
+        return new AuditLog(configured || path.join(this.context.globalStorageUri.fsPath, 'audit.jsonl'));
+    }
+
+    /**
+     * Load hosting provider tokens now and whenever they change. GitHub falls
+     * back to the account VS Code is signed in with, without prompting.
+     */
+    private setupPullRequestTokens(): void {
+        this.loadPullRequestTokens();
+        this.context.subscriptions.push(
+            this.context.secrets.onDidChange(event => {
+                if (event.key.startsWith('gitBranchPruner.token.')) {
+                    this.loadPullRequestTokens();
                 }
-                
-                // Check if this local branch has a corresponding remote branch
-                const remoteNames = (remoteBranches.all as string[]).map((r: string) => r.replace('origin/', ''));
-                const hasRemote = remoteNames.includes(branchName);
-                
-                this.outputChannel.appendLine(`Checking branch: ${branchName}, hasRemote: ${hasRemote}`);
-                
-                if (!hasRemote) {
-                    // Check if branch had remote tracking configuration (even if remote is gone)
-                    try {
-                        // Check if branch has/had upstream configuration
-                        const upstream = await git.raw(['config', '--get', `branch.${branchName}.remote`]);
-                        this.outputChannel.appendLine(`  Branch ${branchName} remote config: "${upstream.trim()}"`);
-                        if (upstream.trim()) {
-                            // Had remote tracking, but remote branch is gone - this is stale
-                            this.outputChannel.appendLine(`  → STALE: ${branchName} had remote tracking but remote is gone`);
-                            staleBranches.push({
-                                name: branchName,
-                                repositoryPath,
-                                repositoryName
-                            });
-                        }
-                    } catch (error) {
-                        this.outputChannel.appendLine(`  Branch ${branchName} has no remote config: ${error}`);
-                        // No remote config - check if it was ever pushed by looking at reflog
-                        try {
-                            const reflog = await git.raw(['reflog', '--all', '--grep=origin', `--grep=${branchName}`, '--']);
-                            if (reflog.trim()) {
-                                // Has origin references in reflog, likely stale
-                                staleBranches.push({
-                                    name: branchName,
-                                    repositoryPath,
-                                    repositoryName
-                                });
-                            }
-                        } catch {
-                            // Ignore branches that never had remote tracking
-                        }
-                    }
+            }),
+            vscode.authentication.onDidChangeSessions(event => {
+                if (event.provider.id === 'github') {
+                    this.loadPullRequestTokens();
                 }
+            })
+        );
+    }
+
+    /**
+     * Read the stored token of each provider, and the GitHub session token
+     * when no GitHub token is stored
+     */
+    private async loadPullRequestTokens(): Promise<void> {
+        const tokens: PullRequestSettings['tokens'] = {};
+        for (const { id } of GitBranchPruner.pullRequestProviders) {
+            tokens[id] = await this.context.secrets.get(`gitBranchPruner.token.${id}`);
+        }
+        if (!tokens.github) {
+            try {
+                const session = await vscode.authentication.getSession('github', ['repo'], { silent: true });
+                tokens.github = session?.accessToken;
+            } catch (error) {
+                this.logger.warn(`Could not read the GitHub session: ${error}`);
             }
-            
-        } catch (error) {
-            this.outputChannel.appendLine(`Error processing repository ${repositoryName}: ${error}`);
         }
-        
-        return staleBranches;
+        this.pullRequestTokens = tokens;
     }
 
     /**
-     * Prune stale branches with user confirmation
+     * Store or clear the access token used to look up pull requests on a hosting provider
      */
-    public async pruneStaleProBranches(): Promise<void> {
-        return vscode.window.withProgress({
+    public async setPullRequestToken(): Promise<void> {
+        const provider = await vscode.window.showQuickPick(
+            GitBranchPruner.pullRequestProviders.map(p => ({ label: p.label, id: p.id })),
+            { placeHolder: 'Hosting provider to store an access token for' }
+        );
+        if (!provider) {
+            return;
+        }
+        const token = await vscode.window.showInputBox({
+            prompt: `Access token for ${provider.label} with read access to pull requests. Leave empty to remove the stored token.`,
+            password: true,
+            ignoreFocusOut: true
+        });
+        if (token === undefined) {
+            return;
+        }
+        const key = `gitBranchPruner.token.${provider.id}`;
+        if (token.trim()) {
+            await this.context.secrets.store(key, token.trim());
+            vscode.window.showInformationMessage(`Stored the ${provider.label} token`);
+        } else {
+            await this.context.secrets.delete(key);
+            vscode.window.showInformationMessage(`Removed the ${provider.label} token`);
+        }
+    }
+
+    /**
+     * Get how a repository's branches are archived when its prune action is
+     * archive, or undefined when pruning deletes them
+     */
+    private getConfiguredArchiveTarget(repositoryPath?: string): ArchiveTarget | undefined {
+        const config = this.getConfiguration(repositoryPath);
+        if (config.get<string>('pruneAction', 'delete') !== 'archive') {
+            return undefined;
+        }
+        return config.get<ArchiveMode>('archive.mode', defaultArchiveSettings.mode) === 'bundle' ? 'bundle' : 'archiveRef';
+    }
+
+    /**
+     * Label of the button that prunes the branches: Archive when their
+     * repositories archive, Delete when they delete, Prune when they differ
+     */
+    private getPruneAction(branches: StaleBranch[]): string {
+        const archived = branches.filter(b => this.getConfiguredArchiveTarget(b.repositoryPath));
+        return archived.length === 0 ? 'Delete' : archived.length === branches.length ? 'Archive' : 'Prune';
+    }
+
+    /**
+     * Create a pruner with a repository's settings that logs to the output channel
+     */
+    private createPruner(repositoryPath?: string): BranchPruner {
+        return new BranchPruner(this.getPrunerSettings(repositoryPath), (message, level) => this.logger.log(message, level));
+    }
+
+    /**
+     * Get stale branches from a specific repository
+     */
+    private async getStaleBranches(repositoryPath: string, options: ScanOptions = {}): Promise<RepositoryScan> {
+        const runScan = () => this.createPruner(repositoryPath).scanRepository(repositoryPath, options);
+        // The scan's own fetch updates the remote-tracking refs and must not trigger another scan
+        const scan = options.skipFetch ? await runScan() : await this.refsWatcher.ignoreChangesDuring(repositoryPath, runScan);
+        return applyIgnoreRules(scan, this.ignoreList.getRules());
+    }
+
+    /**
+     * Prune stale branches with user confirmation, returning a report of the
+     * branches found, or undefined when nothing was scanned
+     */
+    public async pruneStaleProBranches(args: PruneCommandArgs = {}): Promise<StaleBranchReport | undefined> {
+        return this.startPruneRun(this.getRunOptions(args));
+    }
+
+    /**
+     * Build run options from command arguments, falling back to the settings
+     */
+    private getRunOptions(args: PruneCommandArgs): PruneRunOptions {
+        const config = this.getConfiguration();
+        return {
+            scope: config.get<boolean>('pruneAllWorkspaceRepos', false) ? 'workspace' : 'activeRepository',
+            identifyOnly: args.dryRun ?? config.get<boolean>('identifyOnly', false),
+            repositories: args.repositories,
+            rules: args.rules,
+            branches: args.branches
+        };
+    }
+
+    /**
+     * Run a prune or identify run. Scanning and deleting show progress in a
+     * notification; the preview in between doesn't, since it waits for the user.
+     */
+    private async startPruneRun(options: PruneRunOptions): Promise<StaleBranchReport | undefined> {
+        const found = await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: "Git Branch Pruner",
+            cancellable: true
+        }, (progress, token) => this.scanForPruneRun(progress, token, options));
+        if (!found || found.staleBranches.length === 0) {
+            return found?.report;
+        }
+        const { report, staleBranches, skippedBranches } = found;
+        const showNotifications = this.getConfiguration().get<boolean>('showNotifications', true);
+        
+        if (options.identifyOnly) {
+            // Logged before the preview, so closing it doesn't lose the list
+            this.logger.info('IDENTIFY ONLY - Found the following stale branches:');
+            for (const branch of staleBranches) {
+                this.logger.info(`  ${formatStaleBranch(branch)}`);
+            }
+            await this.previewPrune(staleBranches, { action: 'Identify', skippedBranches, readOnly: true });
+            if (showNotifications) {
+                vscode.window.showInformationMessage(`Identify complete. Check output for details.`, 'Export Report').then(choice => {
+                    if (choice === 'Export Report') {
+                        this.exportStaleBranchReport();
+                    }
+                });
+            }
+            return report;
+        }
+        
+        // Let the user review what each branch holds and untick the ones to keep
+        const selected = await this.previewPrune(staleBranches, { action: this.getPruneAction(staleBranches), skippedBranches });
+        if (!selected || selected.length === 0) {
+            return report;
+        }
+        
+        const branchesToDelete = await this.confirmUnmergedBranches(selected);
+        const plan = branchesToDelete.length > 0 ? await this.confirmBranchSafety(branchesToDelete) : undefined;
+        if (!plan || plan.delete.length + plan.archive.length === 0) {
+            this.logger.info('Pruning cancelled. No branches deleted');
+            return report;
+        }
+        
+        const deletedCount = await vscode.window.withProgress({
             location: vscode.ProgressLocation.Notification,
             title: "Git Branch Pruner",
             cancellable: true
         }, async (progress, token) => {
-            return this.executePruning(progress, token);
+            progress.report({ message: "Deleting stale branches..." });
+            this.statusBar.setBusy('Deleting...');
+            try {
+                return await this.deleteBranches(plan, progress, token);
+            } finally {
+                this.statusBar.clearBusy();
+            }
         });
+        
+        if (showNotifications) {
+            vscode.window.showInformationMessage(`Deleted ${deletedCount} stale branch(es)`);
+        }
+        this.logger.info(`Pruning complete. Deleted ${deletedCount} branch(es)`);
+        return report;
     }
 
     /**
-     * Execute the pruning process with progress reporting
+     * Find the repositories of a run and scan them with progress reporting.
+     * Returns undefined when there is nothing to scan or the user cancelled.
      */
-    private async executePruning(progress: vscode.Progress<{message?: string, increment?: number}>, token: vscode.CancellationToken): Promise<void> {
-        const config = vscode.workspace.getConfiguration('gitBranchPruner');
-        const pruneAllRepos = config.get<boolean>('pruneAllWorkspaceRepos', false);
-        const showNotifications = config.get<boolean>('showNotifications', true);
-        const identifyOnly = config.get<boolean>('identifyOnly', false);
+    private async scanForPruneRun(progress: vscode.Progress<{message?: string, increment?: number}>, token: vscode.CancellationToken, options: PruneRunOptions): Promise<PruneRunScan | undefined> {
+        const showNotifications = this.getConfiguration().get<boolean>('showNotifications', true);
+        const identifyOnly = options.identifyOnly;
         
         let repositories: string[] = [];
         
-        this.statusBarItem.text = "$(loading~spin) Searching...";
+        this.statusBar.setBusy('Searching...');
         progress.report({ message: "Finding git repositories..." });
         
-        this.outputChannel.appendLine(`Settings: pruneAllRepos=${pruneAllRepos}`);
+        this.logger.debug(`Run options: scope=${options.scope}, identifyOnly=${identifyOnly}${options.rules ? `, rules=${options.rules.join(',')}` : ''}`);
         
-        if (pruneAllRepos) {
+        if (options.repositories) {
+            repositories = this.resolveRepositoryPaths(options.repositories);
+            this.logger.info(`Using ${repositories.length} repositories from command arguments: ${repositories.join(', ')}`);
+        } else if (options.scope === 'workspace') {
             repositories = await this.getWorkspaceGitRepositories();
-            this.outputChannel.appendLine(`Found ${repositories.length} workspace repositories: ${repositories.join(', ')}`);
+            this.logger.info(`Found ${repositories.length} workspace repositories: ${repositories.join(', ')}`);
         } else {
             const activeRepo = await this.getActiveRepository();
-            this.outputChannel.appendLine(`Active repository: ${activeRepo}`);
+            this.logger.info(`Active repository: ${activeRepo}`);
             if (activeRepo) {
                 repositories = [activeRepo];
             }
         }
         
         if (repositories.length === 0) {
-            this.statusBarItem.text = "$(git-branch) Prune";
-            this.outputChannel.appendLine('No git repositories found!');
+            this.statusBar.clearBusy();
+            this.logger.warn('No git repositories found!');
             if (showNotifications) {
                 vscode.window.showInformationMessage('No git repositories found');
             }
             return;
         }
         
-        this.outputChannel.appendLine(`Checking ${repositories.length} repository(ies) for stale branches...`);
+        this.logger.info(`Checking ${repositories.length} repository(ies) for stale branches...`);
         progress.report({ message: `Analyzing ${repositories.length} repositories...` });
-        this.statusBarItem.text = "$(loading~spin) Analyzing...";
+        this.statusBar.setBusy('Analyzing...');
         
         const allStaleBranches: StaleBranch[] = [];
+        const allSkippedBranches: (SkippedBranch & { repositoryName: string })[] = [];
         
-        for (let i = 0; i < repositories.length; i++) {
-            if (token.isCancellationRequested) {
-                this.statusBarItem.text = "$(git-branch) Prune";
-                return;
-            }
-            
-            const repo = repositories[i];
-            const repoName = path.basename(repo);
-            progress.report({ 
-                message: `Checking ${repoName} (${i + 1}/${repositories.length})...`,
-                increment: (100 / repositories.length)
+        // Pass cancellation through to the running git processes
+        const abortController = new AbortController();
+        const cancellation = token.onCancellationRequested(() => abortController.abort());
+        let scans: RepositoryScan[];
+        try {
+            scans = await this.scanRepositories(repositories, { signal: abortController.signal, rules: options.rules }, (scan, completed) => {
+                progress.report({ 
+                    message: `Checked ${scan.repositoryName} (${completed}/${repositories.length})...`,
+                    increment: (100 / repositories.length)
+                });
             });
-            
-            const staleBranches = await this.getStaleBranches(repo);
-            allStaleBranches.push(...staleBranches);
+        } finally {
+            cancellation.dispose();
         }
         
-        this.statusBarItem.text = "$(git-branch) Prune";
-        
-        if (allStaleBranches.length === 0) {
-            if (showNotifications) {
-                vscode.window.showInformationMessage('No stale branches found');
-            }
-            this.outputChannel.appendLine('No stale branches found');
+        if (token.isCancellationRequested) {
+            this.statusBar.clearBusy();
             return;
         }
+        // Scans limited to some rules don't reflect the repository's usual stale count
+        if (!options.rules) {
+            await this.recordHistory(scans);
+        }
+        this.offerUpstreamRepoint(scans);
         
-        // Show confirmation dialog
-        const branchList = allStaleBranches.map(b => `${b.repositoryName}: ${b.name}`).join('\n');
-        const action = identifyOnly ? 'show' : 'delete';
-        const message = `Found ${allStaleBranches.length} local stale branch(es). ${identifyOnly ? 'Identify' : 'Delete'} them?\n\n${branchList}`;
+        // Branch filters from command arguments narrow what is offered for deletion
+        const branchFilters = options.branches;
+        if (branchFilters) {
+            scans = scans.map(scan => ({
+                ...scan,
+                staleBranches: scan.staleBranches.filter(b => branchFilters.some(pattern => matchesPattern(b.name, pattern)))
+            }));
+        }
         
-        const choice = await vscode.window.showWarningMessage(
-            message,
-            { modal: true },
-            identifyOnly ? 'Identify' : 'Delete',
-            'Cancel'
-        );
+        const report = buildReport(scans);
+        const failedScans = scans.filter(scan => scan.error);
+        for (const scan of scans) {
+            allStaleBranches.push(...scan.staleBranches);
+            allSkippedBranches.push(...scan.skippedBranches.map(b => ({ ...b, repositoryName: scan.repositoryName })));
+        }
         
-        if (choice !== (identifyOnly ? 'Identify' : 'Delete')) {
-            return;
+        if (failedScans.length > 0 && showNotifications) {
+            const failedList = failedScans.map(scan => `${scan.repositoryName} (${describeGitFailure(scan.error!)})`).join(', ');
+            vscode.window.showWarningMessage(`Could not scan ${failedScans.length} repository(ies): ${failedList}. Check output for details.`);
         }
         
-        if (identifyOnly) {
-            this.outputChannel.appendLine('IDENTIFY ONLY - Found the following stale branches:');
-            for (const branch of allStaleBranches) {
-                this.outputChannel.appendLine(`  ${branch.repositoryName}: ${branch.name}`);
+        this.statusBar.clearBusy();
+        
+        if (allSkippedBranches.length > 0) {
+            this.logger.info(`Skipped ${allSkippedBranches.length} protected branch(es):`);
+            for (const branch of allSkippedBranches) {
+                this.logger.info(`  ${branch.repositoryName}: ${branch.name} - ${branch.reason}`);
             }
+        }
+        
+        if (allStaleBranches.length === 0) {
             if (showNotifications) {
-                vscode.window.showInformationMessage(`Identify complete. Check output for details.`);
+                vscode.window.showInformationMessage('No stale branches found');
             }
+            this.logger.info('No stale branches found');
+        }
+        return { report, staleBranches: allStaleBranches, skippedBranches: allSkippedBranches };
+    }
+
+    /**
+     * Add finished scans to the branch history and redraw the dashboard
+     */
+    private async recordHistory(scans: RepositoryScan[]): Promise<void> {
+        await this.branchHistory.recordScans(scans.filter(scan => !scan.error));
+        this.dashboard.refresh();
+    }
+
+    /**
+     * Offer to make branches track the new name of their renamed upstream.
+     * Doesn't wait for an answer, so scans aren't held up by the message.
+     */
+    private offerUpstreamRepoint(scans: RepositoryScan[]): void {
+        const key = (renamed: RenamedUpstream, repositoryPath: string) => `${repositoryPath}\0${renamed.branch}\0${renamed.to}`;
+        const pending = scans.flatMap(scan => (scan.renamedUpstreams ?? [])
+            .filter(renamed => !this.offeredRepoints.has(key(renamed, scan.repositoryPath)))
+            .map(renamed => ({ scan, renamed })));
+        if (pending.length === 0) {
             return;
         }
-        
-        // Actually delete the branches
-        progress.report({ message: "Deleting stale branches..." });
-        this.statusBarItem.text = "$(loading~spin) Deleting...";
-        
-        let deletedCount = 0;
-        for (let i = 0; i < allStaleBranches.length; i++) {
-            if (token.isCancellationRequested) {
-                this.statusBarItem.text = "$(git-branch) Prune";
+        for (const { scan, renamed } of pending) {
+            this.offeredRepoints.add(key(renamed, scan.repositoryPath));
+        }
+        const message = pending.length === 1
+            ? `The upstream of ${pending[0].scan.repositoryName}/${pending[0].renamed.branch} was renamed from ${describeTrackingRef(pending[0].renamed.from)} to ${describeTrackingRef(pending[0].renamed.to)}. Track the new name?`
+            : `The upstreams of ${pending.length} branches were renamed on their remotes. Track the new names?`;
+        vscode.window.showInformationMessage(message, 'Re-point', 'Not Now').then(async choice => {
+            if (choice !== 'Re-point') {
                 return;
             }
-            
-            const branch = allStaleBranches[i];
-            progress.report({ 
-                message: `Deleting ${branch.name} (${i + 1}/${allStaleBranches.length})...`,
-                increment: (100 / allStaleBranches.length)
-            });
-            
-            try {
-                const git: SimpleGit = simpleGit(branch.repositoryPath);
-                await git.deleteLocalBranch(branch.name, true); // Force delete
-                this.outputChannel.appendLine(`Deleted branch: ${branch.repositoryName}/${branch.name}`);
-                deletedCount++;
-            } catch (error) {
-                this.outputChannel.appendLine(`Failed to delete ${branch.repositoryName}/${branch.name}: ${error}`);
+            const repositoryPaths = new Set<string>();
+            for (const { scan, renamed } of pending) {
+                try {
+                    await this.createPruner(scan.repositoryPath).repointUpstream(scan.repositoryPath, renamed);
+                    repositoryPaths.add(scan.repositoryPath);
+                } catch (error) {
+                    this.logger.error(`Failed to re-point the upstream of ${scan.repositoryName}/${renamed.branch}: ${error}`);
+                    vscode.window.showErrorMessage(`Failed to re-point the upstream of ${renamed.branch}: ${error}`);
+                }
             }
-        }
-        
-        this.statusBarItem.text = "$(git-branch) Prune";
-        
-        if (showNotifications) {
-            vscode.window.showInformationMessage(`Deleted ${deletedCount} stale branch(es)`);
-        }
-        this.outputChannel.appendLine(`Pruning complete. Deleted ${deletedCount} branch(es)`);
+            await this.rescanWithoutFetch([...repositoryPaths]);
+        });
     }
 
     /**
-     * Prune stale branches from active repository only
+     * Show branch counts and trends for every workspace repository
      */
-    public async pruneStaleActiveRepository(): Promise<void> {
-        const activeRepo = await this.getActiveRepository();
-        if (!activeRepo) {
-            vscode.window.showErrorMessage('No active git repository found');
+    public async showDashboard(): Promise<void> {
+        const repositories = await this.getWorkspaceGitRepositories();
+        if (repositories.length === 0) {
+            vscode.window.showInformationMessage('No git repositories found');
             return;
         }
-        
-        // Temporarily override the setting for this command
-        const config = vscode.workspace.getConfiguration('gitBranchPruner');
-        await config.update('pruneAllWorkspaceRepos', false, vscode.ConfigurationTarget.Global);
-        
+        this.dashboard.show(repositories);
+    }
+
+    /**
+     * Show the prune preview, opening diffs in an editor next to it
+     */
+    private previewPrune(branches: StaleBranch[], options: Omit<PrunePreviewOptions, 'openDiff'>): Promise<StaleBranch[] | undefined> {
+        return showPrunePreview(branches, { ...options, openDiff: branch => this.openBranchDiff(branch) });
+    }
+
+    /**
+     * Open what a branch changed since it forked from the default branch
+     */
+    private async openBranchDiff(branch: StaleBranch): Promise<void> {
         try {
-            await this.pruneStaleProBranches();
-        } finally {
-            // Don't restore the original setting as user might want to keep this change
+            const diff = await this.createPruner(branch.repositoryPath).diffBranch(branch);
+            const document = await vscode.workspace.openTextDocument({
+                content: diff || `${branch.repositoryName}: ${branch.name} has no changes against the default branch`,
+                language: 'diff'
+            });
+            await vscode.window.showTextDocument(document, { preview: true, viewColumn: vscode.ViewColumn.Beside });
+        } catch (error) {
+            this.logger.error(`Failed to diff ${branch.repositoryName}/${branch.name}: ${error}`);
+            vscode.window.showErrorMessage(`Failed to diff ${branch.name}: ${error}`);
         }
     }
 
     /**
-     * Show status of pruneable branches without deleting
+     * In safe-delete mode, require a second confirmation for branches whose
+     * commits are not on the default branch. Returns the branches to delete.
      */
-    public async showPruneableStatus(): Promise<void> {
-        const config = vscode.workspace.getConfiguration('gitBranchPruner');
-        const originalIdentifyOnly = config.get<boolean>('identifyOnly', false);
+    private async confirmUnmergedBranches(branches: StaleBranch[]): Promise<StaleBranch[]> {
+        // Safe delete can be turned off for some repositories of a multi-root workspace
+        const unsafeBranches = branches.filter(b => !isBranchSafeToDelete(b)
+            && this.getConfiguration(b.repositoryPath).get<boolean>('safeDelete', true));
+        const safeBranches = branches.filter(b => !unsafeBranches.includes(b));
+        if (unsafeBranches.length === 0) {
+            return safeBranches;
+        }
+        
+        const details = unsafeBranches.map(b => {
+            const commits = b.uniqueCommits.slice(0, 5).map(c => `    ${c.sha.substring(0, 8)} ${c.subject}`);
+            if (b.uniqueCommits.length > 5) {
+                commits.push(`    ...and ${b.uniqueCommits.length - 5} more`);
+            }
+            const pullRequest = b.pullRequest?.state === 'closed' ? [`    ${describePullRequest(b.pullRequest)}: ${b.pullRequest.url}`] : [];
+            return [formatStaleBranch(b), ...pullRequest, ...commits].join('\n');
+        }).join('\n\n');
         
-        // Temporarily enable identify only mode
-        await config.update('identifyOnly', true, vscode.ConfigurationTarget.Global);
+        const choice = await vscode.window.showWarningMessage(
+            `${unsafeBranches.length} branch(es) have commits that are not on the default branch or a pull request that was closed without merging. This work may be lost if deleted:\n\n${details}`,
+            { modal: true },
+            'Delete Anyway',
+            'Skip These'
+        );
         
-        try {
-            await this.pruneStaleProBranches();
-        } finally {
-            // Restore original identify only setting
-            await config.update('identifyOnly', originalIdentifyOnly, vscode.ConfigurationTarget.Global);
+        if (choice === 'Delete Anyway') {
+            return branches;
+        }
+        if (choice === 'Skip These') {
+            for (const branch of unsafeBranches) {
+                this.logger.info(`Skipped unmerged branch: ${branch.repositoryName}/${branch.name}`);
+            }
+            return safeBranches;
         }
+        return [];
     }
 
     /**
-     * Show menu with prune options
+     * Check branches about to be deleted for linked worktrees, stashes and
+     * unsaved work. Branches that are checked out somewhere are always skipped;
+     * for the others the user chooses to delete, archive or skip them.
+     * Returns undefined when cancelled.
      */
-    public async showPruneMenu(): Promise<void> {
-        const items = [
-            {
-                label: "$(git-branch) Prune Stale Local Branches",
-                description: "Delete local branches that no longer exist on remote",
-                action: 'prune'
-            },
+    private async confirmBranchSafety(branches: StaleBranch[]): Promise<DeletionPlan | undefined> {
+        const found = await this.createPruner().findHazards(branches, this.getUnsavedFiles());
+        if (found.length === 0) {
+            return { delete: branches, archive: [], archiveTargets: new Map() };
+        }
+        
+        const blocked = found.filter(f => f.hazards.some(h => h.blocking)).map(f => f.branch);
+        const warned = found.map(f => f.branch).filter(b => !blocked.includes(b));
+        const clear = branches.filter(b => !found.some(f => f.branch === b));
+        
+        const details = found.map(({ branch, hazards }) => [
+            `${branch.repositoryName}: ${branch.name}`,
+            ...hazards.map(h => `    ${h.blocking ? 'Blocked' : 'Warning'}: ${h.message}`)
+        ].join('\n')).join('\n\n');
+        let message = `${found.length} branch(es) have work attached to them:\n\n${details}`;
+        if (blocked.length > 0) {
+            message += `\n\n${blocked.length} blocked branch(es) will be skipped. Switch their worktrees to another branch to delete them.`;
+        }
+        
+        const choice = warned.length > 0
+            ? await vscode.window.showWarningMessage(message, { modal: true }, 'Delete Anyway', 'Archive Instead', 'Skip These')
+            : await vscode.window.showWarningMessage(message, { modal: true }, 'Skip These');
+        if (!choice) {
+            return undefined;
+        }
+        for (const branch of blocked) {
+            this.logger.info(`Skipped blocked branch: ${branch.repositoryName}/${branch.name}`);
+        }
+        
+        if (choice === 'Delete Anyway') {
+            return { delete: [...clear, ...warned], archive: [], archiveTargets: new Map() };
+        }
+        if (choice === 'Archive Instead') {
+            const archiveTargets = await this.getArchiveTargets(warned);
+            return archiveTargets ? { delete: clear, archive: warned, archiveTargets } : undefined;
+        }
+        for (const branch of warned) {
+            this.logger.info(`Skipped branch with attached work: ${branch.repositoryName}/${branch.name}`);
+        }
+        return { delete: clear, archive: [], archiveTargets: new Map() };
+    }
+
+    /**
+     * Work out how each repository keeps archived branches: its configured
+     * target, or one the user picks once for every repository without one.
+     * Returns undefined when cancelled.
+     */
+    private async getArchiveTargets(branches: StaleBranch[]): Promise<Map<string, ArchiveTarget> | undefined> {
+        const targets = new Map<string, ArchiveTarget>();
+        let picked: ArchiveTarget | undefined;
+        for (const repositoryPath of groupByRepository(branches).keys()) {
+            let target = this.getConfiguredArchiveTarget(repositoryPath);
+            if (!target) {
+                picked ??= await this.pickArchiveTarget(repositoryPath);
+                target = picked;
+            }
+            if (!target) {
+                return undefined;
+            }
+            targets.set(repositoryPath, target);
+        }
+        return targets;
+    }
+
+    /**
+     * Ask whether archived branches are kept as tags or as archive refs
+     */
+    private async pickArchiveTarget(repositoryPath: string): Promise<ArchiveTarget | undefined> {
+        const namespace = this.getPrunerSettings(repositoryPath).archive.namespace;
+        const picked = await vscode.window.showQuickPick([
+            { label: 'Tag', description: 'archive/<branch>', target: 'tag' as ArchiveTarget },
+            { label: 'Archive ref', description: `${expandNamespace(namespace, new Date())}/<branch>, hidden from branch and tag lists`, target: 'archiveRef' as ArchiveTarget },
+            { label: 'Bundle', description: 'One git bundle file per repository', target: 'bundle' as ArchiveTarget }
+        ], { placeHolder: 'Keep the branches as' });
+        return picked?.target;
+    }
+
+    /**
+     * Paths of files open in an editor with unsaved changes
+     */
+    private getUnsavedFiles(): string[] {
+        return vscode.workspace.textDocuments
+            .filter(document => document.isDirty && document.uri.scheme === 'file')
+            .map(document => document.uri.fsPath);
+    }
+
+    /**
+     * Force delete the planned branches, archiving those the user chose to
+     * keep, and return how many were deleted
+     */
+    private async deleteBranches(plan: DeletionPlan, progress: vscode.Progress<{message?: string, increment?: number}>, token: vscode.CancellationToken): Promise<number> {
+        const abortController = new AbortController();
+        const cancellation = token.onCancellationRequested(() => abortController.abort());
+        const total = plan.delete.length + plan.archive.length;
+        let completed = 0;
+        const onProgress = (branch: StaleBranch) => progress.report({
+            message: `Deleting ${branch.name} (${++completed}/${total})...`,
+            increment: (100 / total)
+        });
+        try {
+            // The user already confirmed any unmerged branches and attached work
+            const approveHooks = (repositoryPath: string, hooks: PruneHooksConfig) => this.approveHooks(repositoryPath, hooks, true);
+            const deleted = await this.runPrune(plan.delete, { force: true, signal: abortController.signal, onProgress, approveHooks });
+            const archived: PruneRunResult[] = [];
+            for (const [repositoryPath, repositoryBranches] of groupByRepository(plan.archive)) {
+                const archive = plan.archiveTargets.get(repositoryPath);
+                archived.push(await this.runPrune(repositoryBranches, { force: true, signal: abortController.signal, onProgress, approveHooks, archive }));
+            }
+            this.reportHookOutcomes([deleted, ...archived]);
+            return [deleted, ...archived].reduce((count, result) => count + result.deleted.length, 0);
+        } finally {
+            cancellation.dispose();
+        }
+    }
+
+    /**
+     * Tell the user about branches kept by beforePrune hooks and afterPrune
+     * hooks that failed; the hook output is in the output channel
+     */
+    private reportHookOutcomes(results: PruneRunResult[]): void {
+        const kept = results.flatMap(result => result.blocked)
+            .filter(found => found.hazards.some(h => h.kind === 'hookVeto' || h.kind === 'hookFailed' || h.kind === 'hookNotApproved'));
+        const failures = results.flatMap(result => result.hookFailures);
+        for (const { branch, error } of failures) {
+            this.logger.warn(`afterPrune hook failed for ${branch.repositoryName}/${branch.name}: ${error}`);
+        }
+        if (kept.length + failures.length === 0) {
+            return;
+        }
+        const parts = [
+            ...kept.length > 0 ? [`${kept.length} branch(es) kept by repository hooks: ${kept.map(found => found.branch.name).join(', ')}`] : [],
+            ...failures.length > 0 ? [`afterPrune hook failed for ${failures.map(failure => failure.branch.name).join(', ')}`] : []
+        ];
+        vscode.window.showWarningMessage(`${parts.join('. ')}.`, 'Show Output').then(choice => {
+            if (choice === 'Show Output') {
+                this.outputChannel.show();
+            }
+        });
+    }
+
+    /**
+     * Whether the hooks of a repository's config file may run. They never run
+     * in an untrusted workspace. Otherwise the user approves each repository's
+     * commands once; runs nobody watches, like auto-prune and the API, only
+     * run hooks that were approved before.
+     */
+    private async approveHooks(repositoryPath: string, hooks: PruneHooksConfig, interactive: boolean): Promise<boolean> {
+        const repositoryName = path.basename(repositoryPath);
+        if (!vscode.workspace.isTrusted) {
+            this.logger.warn(`Not running the hooks of ${repositoryName}: the workspace is not trusted`);
+            return false;
+        }
+        const approved = this.context.globalState.get<Record<string, string>>(GitBranchPruner.approvedHooksKey, {});
+        const commands = JSON.stringify(hooks);
+        if (approved[repositoryPath] === commands) {
+            return true;
+        }
+        if (!interactive) {
+            this.logger.warn(`Not running the hooks of ${repositoryName}: prune from the command palette once to approve them`);
+            return false;
+        }
+        const detail = pruneHookNames
+            .map(name => [name, resolveHook(hooks, name)] as const)
+            .filter(([, hook]) => hook)
+            .map(([name, hook]) => `${name}: ${hook!.command}`)
+            .join('\n');
+        const choice = await vscode.window.showWarningMessage(
+            `${repositoryName} wants to run commands from ${repositoryConfigFileName} for every pruned branch. Only allow this if you trust the repository.`,
+            { modal: true, detail },
+            'Run Hooks'
+        );
+        if (choice !== 'Run Hooks') {
+            return false;
+        }
+        await this.context.globalState.update(GitBranchPruner.approvedHooksKey, { ...approved, [repositoryPath]: commands });
+        return true;
+    }
+
+    /**
+     * Prune branches without prompting, record deletions in the prune journal
+     * and remove them from the view and the scan cache. Each repository is
+     * pruned with its own settings.
+     */
+    private async runPrune(branches: StaleBranch[], options: PruneOptions): Promise<PruneRunResult> {
+        const result: PruneRunResult = { dryRun: options.dryRun ?? false, deleted: [], failed: [], wouldDelete: [], skippedUnmerged: [], blocked: [], hookFailures: [] };
+        const unsavedFiles = this.getUnsavedFiles();
+        for (const [repositoryPath, repositoryBranches] of groupByRepository(branches)) {
+            const repositoryResult = await this.createPruner(repositoryPath).prune(repositoryBranches, {
+                unsavedFiles,
+                ...options,
+                archive: options.archive ?? this.getConfiguredArchiveTarget(repositoryPath)
+            });
+            result.deleted.push(...repositoryResult.deleted);
+            result.failed.push(...repositoryResult.failed);
+            result.wouldDelete.push(...repositoryResult.wouldDelete);
+            result.skippedUnmerged.push(...repositoryResult.skippedUnmerged);
+            result.blocked.push(...repositoryResult.blocked);
+            result.hookFailures.push(...repositoryResult.hookFailures);
+        }
+        for (const branch of result.deleted) {
+            await this.pruneJournal.record({
+                repositoryPath: branch.repositoryPath,
+                repositoryName: branch.repositoryName,
+                branch: branch.name,
+                ...branch.snapshot
+            });
+        }
+        
+        if (!result.dryRun) {
+            this.staleBranchesProvider.removeBranches(result.deleted);
+            await this.scanCache.removeBranches(result.deleted);
+            await this.branchHistory.recordDeletions(result.deleted);
+            this.dashboard.refresh();
+            this.onDidPruneEmitter.fire(result);
+        }
+        return result;
+    }
+
+    /**
+     * Delete merged remote branches owned by the user, after they pick which
+     * ones and confirm. Does nothing unless remote pruning is enabled.
+     */
+    public async pruneRemoteBranches(): Promise<RemotePruneResult | undefined> {
+        const config = vscode.workspace.getConfiguration('gitBranchPruner');
+        if (!config.get<boolean>('remotePruning.enabled', false)) {
+            const choice = await vscode.window.showInformationMessage(
+                'Remote branch pruning is off. Turn on gitBranchPruner.remotePruning.enabled to delete merged branches from the server.',
+                'Open Settings'
+            );
+            if (choice === 'Open Settings') {
+                vscode.commands.executeCommand('workbench.action.openSettings', 'gitBranchPruner.remotePruning');
+            }
+            return undefined;
+        }
+        
+        const repositories = await this.getWorkspaceGitRepositories();
+        const scans = await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: 'Git Branch Pruner',
+            cancellable: true
+        }, async (progress, token) => {
+            const abortController = new AbortController();
+            const cancellation = token.onCancellationRequested(() => abortController.abort());
+            const results: RemoteScan[] = [];
+            try {
+                for (const repositoryPath of repositories) {
+                    if (token.isCancellationRequested) {
+                        break;
+                    }
+                    progress.report({ message: `Checking remote branches of ${path.basename(repositoryPath)}...` });
+                    const repositoryConfig = this.getConfiguration(repositoryPath);
+                    const ownership = {
+                        authorEmails: repositoryConfig.get<string[]>('remotePruning.authorEmails', []),
+                        branchPatterns: repositoryConfig.get<string[]>('remotePruning.branchPatterns', [])
+                    };
+                    results.push(await this.createPruner(repositoryPath).scanRemoteBranches(repositoryPath, ownership, { signal: abortController.signal }));
+                }
+            } finally {
+                cancellation.dispose();
+            }
+            return results;
+        });
+        
+        const failedScans = scans.filter(scan => scan.error);
+        if (failedScans.length > 0) {
+            const failedList = failedScans.map(scan => `${scan.repositoryName} (${describeGitFailure(scan.error!)})`).join(', ');
+            vscode.window.showWarningMessage(`Could not check remote branches of ${failedScans.length} repository(ies): ${failedList}. Check output for details.`);
+        }
+        
+        const branches = scans.flatMap(scan => scan.branches);
+        if (branches.length === 0) {
+            vscode.window.showInformationMessage('No merged remote branches of yours found');
+            return undefined;
+        }
+        
+        const picked = await vscode.window.showQuickPick(branches.map(branch => ({
+            label: `$(cloud) ${branch.remote}/${branch.name}`,
+            description: branch.repositoryName,
+            detail: `${branch.authorName} <${branch.authorEmail}> · last commit ${new Date(branch.lastCommitTime).toLocaleDateString()}`,
+            picked: true,
+            branch
+        })), {
+            canPickMany: true,
+            placeHolder: 'Select merged remote branches to delete from the server',
+            matchOnDescription: true,
+            matchOnDetail: true
+        });
+        if (!picked || picked.length === 0) {
+            return undefined;
+        }
+        
+        const selected = picked.map(item => item.branch);
+        const branchList = selected.map(b => `${b.repositoryName}: ${b.remote}/${b.name}`).join('\n');
+        const choice = await vscode.window.showWarningMessage(
+            `Delete ${selected.length} branch(es) from the server? They are removed for everyone who uses the remote.\n\n${branchList}`,
+            { modal: true },
+            'Delete from Remote'
+        );
+        if (choice !== 'Delete from Remote') {
+            return undefined;
+        }
+        
+        const result = await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: 'Git Branch Pruner',
+            cancellable: true
+        }, async (progress, token) => {
+            const abortController = new AbortController();
+            const cancellation = token.onCancellationRequested(() => abortController.abort());
+            try {
+                return await this.createPruner().deleteRemoteBranches(selected, {
+                    signal: abortController.signal,
+                    onProgress: (branch, index) => progress.report({
+                        message: `Deleting ${branch.remote}/${branch.name} (${index + 1}/${selected.length})...`,
+                        increment: (100 / selected.length)
+                    })
+                });
+            } finally {
+                cancellation.dispose();
+            }
+        });
+        
+        if (result.failed.length > 0) {
+            const failedList = result.failed.map(f => `${f.branch.remote}/${f.branch.name}`).join(', ');
+            vscode.window.showErrorMessage(`Deleted ${result.deleted.length} remote branch(es). Failed to delete ${result.failed.length}: ${failedList}. Check output for details.`);
+        } else {
+            vscode.window.showInformationMessage(`Deleted ${result.deleted.length} remote branch(es)`);
+        }
+        return result;
+    }
+
+    /**
+     * Resolve paths anywhere inside repositories to repository roots, dropping
+     * paths that are not in a repository
+     */
+    private resolveRepositoryPaths(paths: string[]): string[] {
+        const repositories = new Set<string>();
+        for (const target of paths) {
+            const repositoryPath = findEnclosingRepository(target);
+            if (repositoryPath) {
+                repositories.add(repositoryPath);
+            } else {
+                this.logger.warn(`Ignoring ${target}: not inside a git repository`);
+            }
+        }
+        return [...repositories];
+    }
+
+    /**
+     * Build the API returned from `activate`
+     */
+    public createApi(): GitBranchPrunerApi {
+        return {
+            version: 1,
+            scan: async repositories => {
+                const repositoryPaths = repositories
+                    ? this.resolveRepositoryPaths(repositories)
+                    : await this.getWorkspaceGitRepositories();
+                return this.scanRepositories(repositoryPaths, {});
+            },
+            prune: (branches, options = {}) => this.runPrune(branches, {
+                ...options,
+                blockOnWarnings: !options.force,
+                approveHooks: (repositoryPath, hooks) => this.approveHooks(repositoryPath, hooks, false)
+            }),
+            onDidScan: this.onDidScanEmitter.event,
+            onDidPrune: this.onDidPruneEmitter.event
+        };
+    }
+
+    /**
+     * Drop prune journal entries older than the configured retention period
+     */
+    private async expireJournal(): Promise<void> {
+        const config = vscode.workspace.getConfiguration('gitBranchPruner');
+        const retentionDays = config.get<number>('journalRetentionDays', 30);
+        const expired = await this.pruneJournal.expire(retentionDays);
+        if (expired > 0) {
+            this.logger.info(`Expired ${expired} prune journal entr${expired > 1 ? 'ies' : 'y'} older than ${retentionDays} days`);
+        }
+    }
+
+    /**
+     * Let the user pick a recently pruned branch and recreate it from the journal
+     */
+    public async restorePrunedBranch(): Promise<void> {
+        const config = vscode.workspace.getConfiguration('gitBranchPruner');
+        const entries = this.pruneJournal.getEntries(config.get<number>('journalRetentionDays', 30));
+        if (entries.length === 0) {
+            vscode.window.showInformationMessage('No recently pruned branches to restore');
+            return;
+        }
+        
+        const items = entries.map(entry => ({
+            label: `$(git-branch) ${entry.branch}`,
+            description: entry.repositoryName,
+            detail: `${entry.sha.substring(0, 8)} · pruned ${new Date(entry.timestamp).toLocaleString()}${entry.upstreamRemote ? ` · tracked ${entry.upstreamRemote}` : ''}`,
+            entry
+        }));
+        
+        const selected = await vscode.window.showQuickPick(items, {
+            placeHolder: 'Select a pruned branch to restore',
+            matchOnDescription: true,
+            matchOnDetail: true
+        });
+        if (!selected) {
+            return;
+        }
+        
+        await this.restoreJournalEntry(selected.entry);
+    }
+
+    /**
+     * Recreate a branch and its upstream config from a journal entry
+     */
+    private async restoreJournalEntry(entry: PruneJournalEntry): Promise<void> {
+        try {
+            const git: SimpleGit = createGit(entry.repositoryPath, this.getGitOptions(entry.repositoryPath));
+            await restoreBranch(git, entry.branch, entry);
+            await this.pruneJournal.remove(entry.id);
+            this.logger.info(`Restored branch: ${entry.repositoryName}/${entry.branch} at ${entry.sha}`);
+            vscode.window.showInformationMessage(`Restored branch ${entry.branch} in ${entry.repositoryName}`);
+        } catch (error) {
+            this.logger.error(`Failed to restore ${entry.repositoryName}/${entry.branch}: ${error}`);
+            vscode.window.showErrorMessage(`Failed to restore ${entry.branch}: ${error}`);
+        }
+    }
+
+    /**
+     * Let the user pick an archived branch from any workspace repository and recreate it
+     */
+    public async restoreArchivedBranch(): Promise<void> {
+        const repositories = await this.getWorkspaceGitRepositories();
+        const items: (vscode.QuickPickItem & { repositoryPath: string; archived: ArchivedBranch })[] = [];
+        for (const repositoryPath of repositories) {
+            try {
+                for (const archived of await this.createPruner(repositoryPath).listArchives(repositoryPath)) {
+                    items.push({
+                        label: `$(archive) ${archived.branch}`,
+                        description: path.basename(repositoryPath),
+                        detail: `${archived.sha.substring(0, 8)} · archived ${new Date(archived.archivedAt).toLocaleString()} · ${archived.bundlePath ? path.basename(archived.bundlePath) : archived.ref}`,
+                        repositoryPath,
+                        archived
+                    });
+                }
+            } catch (error) {
+                this.logger.warn(`Could not list archived branches in ${repositoryPath}: ${error}`);
+            }
+        }
+        if (items.length === 0) {
+            vscode.window.showInformationMessage('No archived branches found');
+            return;
+        }
+        
+        const selected = await vscode.window.showQuickPick(items.sort((a, b) => b.archived.archivedAt - a.archived.archivedAt), {
+            placeHolder: 'Select an archived branch to restore',
+            matchOnDescription: true,
+            matchOnDetail: true
+        });
+        if (!selected) {
+            return;
+        }
+        
+        try {
+            // Offer another name when a branch with the archived name exists again
+            let branchName = selected.archived.branch;
+            const git = createGit(selected.repositoryPath, this.getGitOptions(selected.repositoryPath));
+            if ((await git.raw(['branch', '--list', branchName])).trim()) {
+                const newName = await vscode.window.showInputBox({
+                    prompt: `Branch ${branchName} already exists. Restore the archived branch as:`,
+                    value: `${branchName}-restored`,
+                    validateInput: value => value.trim() ? undefined : 'Enter a branch name'
+                });
+                if (!newName) {
+                    return;
+                }
+                branchName = newName.trim();
+            }
+            
+            await this.createPruner(selected.repositoryPath).restoreArchive(selected.repositoryPath, selected.archived, branchName);
+            vscode.window.showInformationMessage(`Restored branch ${branchName} in ${path.basename(selected.repositoryPath)}`);
+        } catch (error) {
+            this.logger.error(`Failed to restore archived branch ${selected.archived.branch}: ${error}`);
+            vscode.window.showErrorMessage(`Failed to restore ${selected.archived.branch}: ${error}`);
+        }
+    }
+
+    /**
+     * Remove expired archives once a day, checking hourly so a day is not
+     * missed when windows are reopened
+     */
+    private setupArchiveCleanup(): void {
+        this.removeExpiredArchivesIfDue();
+        this.archiveCleanupTimer = setInterval(() => this.removeExpiredArchivesIfDue(), 60 * 60 * 1000);
+    }
+
+    /**
+     * Remove archived refs and bundles older than the retention period from
+     * every workspace repository, unless any window did so in the last day
+     */
+    private async removeExpiredArchivesIfDue(): Promise<void> {
+        const lastCleanup = this.context.globalState.get<number>(GitBranchPruner.lastArchiveCleanupKey, 0);
+        if (Date.now() - lastCleanup < 24 * 60 * 60 * 1000) {
+            return;
+        }
+        await this.context.globalState.update(GitBranchPruner.lastArchiveCleanupKey, Date.now());
+        
+        for (const repositoryPath of await this.getWorkspaceGitRepositories()) {
+            try {
+                // Retention is read per repository, like the rest of the archive settings
+                await this.createPruner(repositoryPath).removeExpiredArchives(repositoryPath);
+            } catch (error) {
+                this.logger.error(`Could not remove expired archives in ${repositoryPath}: ${error}`);
+            }
+        }
+    }
+
+    /**
+     * Re-scan all workspace repositories and refresh the Stale Branches view
+     */
+    public async refreshStaleBranchesView(): Promise<StaleBranchReport> {
+        return vscode.window.withProgress({
+            location: { viewId: 'gitBranchPruner.staleBranches' },
+            title: 'Scanning for stale branches...'
+        }, async () => {
+            const repositories = await this.getWorkspaceGitRepositories();
+            return buildReport(await this.scanRepositories(repositories, {}));
+        });
+    }
+
+    /**
+     * Open the audit log for a review, narrowed to one repository and a
+     * period picked by the user
+     */
+    public async showAuditLog(): Promise<void> {
+        const auditLog = this.getAuditLog();
+        let entries: AuditEntry[];
+        try {
+            entries = await auditLog.read();
+        } catch (error) {
+            this.logger.error(`Failed to read the audit log ${auditLog.filePath}: ${error}`);
+            vscode.window.showErrorMessage(`Failed to read the audit log: ${error}`);
+            return;
+        }
+        if (entries.length === 0) {
+            vscode.window.showInformationMessage(`No branches have been deleted yet. The audit log is kept in ${auditLog.filePath}`);
+            return;
+        }
+        
+        const repositoryPaths = [...new Set(entries.map(entry => entry.repositoryPath))].sort();
+        const repository = await vscode.window.showQuickPick([
+            { label: '$(file) Open Log File', description: auditLog.filePath, repositoryPath: undefined, raw: true },
+            { label: '$(repo) All Repositories', description: `${entries.length} entries`, repositoryPath: undefined, raw: false },
+            ...repositoryPaths.map(repositoryPath => ({
+                label: `$(repo) ${path.basename(repositoryPath)}`,
+                description: `${entries.filter(entry => entry.repositoryPath === repositoryPath).length} entries`,
+                detail: repositoryPath,
+                repositoryPath,
+                raw: false
+            }))
+        ], { placeHolder: 'Show audit log entries of' });
+        if (!repository) {
+            return;
+        }
+        if (repository.raw) {
+            await vscode.window.showTextDocument(vscode.Uri.file(auditLog.filePath));
+            return;
+        }
+        
+        const dayMs = 24 * 60 * 60 * 1000;
+        const period = await vscode.window.showQuickPick([
+            { label: 'All Time', days: undefined },
+            { label: 'Last 24 Hours', days: 1 },
+            { label: 'Last 7 Days', days: 7 },
+            { label: 'Last 30 Days', days: 30 },
+            { label: 'Last 90 Days', days: 90 },
+            { label: 'Since Date...', days: -1 }
+        ], { placeHolder: 'Show entries from' });
+        if (!period) {
+            return;
+        }
+        let since = period.days && period.days > 0 ? Date.now() - period.days * dayMs : undefined;
+        if (period.days === -1) {
+            const date = await vscode.window.showInputBox({
+                prompt: 'Show entries on or after this date',
+                placeHolder: 'YYYY-MM-DD',
+                validateInput: value => /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(Date.parse(value)) ? undefined : 'Enter a date as YYYY-MM-DD'
+            });
+            if (!date) {
+                return;
+            }
+            // Midnight local time, like the dates people have in mind for a review
+            since = new Date(`${date}T00:00:00`).getTime();
+        }
+        
+        const filter: AuditFilter = { repositoryPath: repository.repositoryPath, since };
+        const filtered = filterAuditEntries(entries, filter);
+        const header = [
+            `# Git Branch Pruner audit log: ${repository.repositoryPath ?? 'all repositories'}, ${since !== undefined ? `since ${new Date(since).toISOString()}` : 'all time'}`,
+            `# ${filtered.length} of ${entries.length} entries from ${auditLog.filePath}`,
+            '# time  user  action  outcome  repository  branch  sha  detail'
+        ];
+        const document = await vscode.workspace.openTextDocument({
+            content: [...header, ...filtered.map(formatAuditEntry)].join('\n') + '\n',
+            language: 'log'
+        });
+        await vscode.window.showTextDocument(document, { preview: false });
+    }
+
+    /**
+     * Write the latest scan results to a JSON, Markdown or CSV file. The format
+     * and target are asked for unless passed in. Returns the exported report.
+     */
+    public async exportStaleBranchReport(format?: ReportFormat, target?: vscode.Uri): Promise<StaleBranchReport | undefined> {
+        let scans = this.scanCache.getAll();
+        if (scans.length === 0) {
+            await this.refreshStaleBranchesView();
+            scans = this.scanCache.getAll();
+        }
+        if (scans.length === 0) {
+            vscode.window.showInformationMessage('No scan results to export');
+            return undefined;
+        }
+        
+        if (!format) {
+            const picked = await vscode.window.showQuickPick([
+                { label: 'JSON', description: 'Full report for scripts and other tools', format: 'json' as ReportFormat },
+                { label: 'Markdown', description: 'Tables for sharing in issues and wikis', format: 'markdown' as ReportFormat },
+                { label: 'CSV', description: 'One row per branch for spreadsheets', format: 'csv' as ReportFormat }
+            ], { placeHolder: 'Export stale branch report as' });
+            if (!picked) {
+                return undefined;
+            }
+            format = picked.format;
+        }
+        
+        const report = buildReport(scans);
+        if (!target) {
+            const extension = reportFileExtensions[format];
+            const folder = vscode.workspace.workspaceFolders?.[0]?.uri;
+            const fileName = `stale-branches-${report.generatedAt.substring(0, 10)}.${extension}`;
+            target = await vscode.window.showSaveDialog({
+                defaultUri: folder ? vscode.Uri.joinPath(folder, fileName) : undefined,
+                filters: { [format.toUpperCase()]: [extension] }
+            });
+            if (!target) {
+                return undefined;
+            }
+        }
+        
+        try {
+            await vscode.workspace.fs.writeFile(target, Buffer.from(formatReport(report, format), 'utf8'));
+        } catch (error) {
+            this.logger.error(`Failed to export report to ${target.fsPath}: ${error}`);
+            vscode.window.showErrorMessage(`Failed to export report: ${error}`);
+            return undefined;
+        }
+        this.logger.info(`Exported ${report.branches.length} stale branch(es) to ${target.fsPath}`);
+        vscode.window.showInformationMessage(`Exported stale branch report to ${path.basename(target.fsPath)}`, 'Open').then(choice => {
+            if (choice === 'Open' && target) {
+                vscode.window.showTextDocument(target);
+            }
+        });
+        return report;
+    }
+
+    /**
+     * Delete the branches checked in the Stale Branches view
+     */
+    public async pruneCheckedBranches(): Promise<void> {
+        const branches = this.staleBranchesProvider.getCheckedBranches();
+        if (branches.length === 0) {
+            vscode.window.showInformationMessage('No branches checked. Tick the branches you want to delete first.');
+            return;
+        }
+        await this.confirmAndDeleteBranches(branches);
+    }
+
+    /**
+     * Delete a single branch from the Stale Branches view context menu
+     */
+    public async deleteBranchFromView(node: StaleTreeNode | undefined): Promise<void> {
+        if (node?.kind !== 'branch') {
+            return;
+        }
+        await this.confirmAndDeleteBranches([node.branch]);
+    }
+
+    /**
+     * Preview the given branches, then delete the confirmed ones with progress
+     */
+    private async confirmAndDeleteBranches(branches: StaleBranch[]): Promise<void> {
+        const selected = await this.previewPrune(branches, { action: this.getPruneAction(branches) });
+        if (!selected || selected.length === 0) {
+            return;
+        }
+        
+        const branchesToDelete = await this.confirmUnmergedBranches(selected);
+        const plan = branchesToDelete.length > 0 ? await this.confirmBranchSafety(branchesToDelete) : undefined;
+        if (!plan || plan.delete.length + plan.archive.length === 0) {
+            return;
+        }
+        
+        const deletedCount = await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: "Git Branch Pruner",
+            cancellable: true
+        }, (progress, token) => this.deleteBranches(plan, progress, token));
+        
+        const config = vscode.workspace.getConfiguration('gitBranchPruner');
+        if (config.get<boolean>('showNotifications', true)) {
+            vscode.window.showInformationMessage(`Deleted ${deletedCount} stale branch(es)`);
+        }
+    }
+
+    /**
+     * Hide a branch from the Stale Branches view without deleting it
+     */
+    public keepBranch(node: StaleTreeNode | undefined): void {
+        if (node?.kind !== 'branch') {
+            return;
+        }
+        this.staleBranchesProvider.keepBranch(node.branch);
+        this.logger.info(`Keeping branch: ${node.branch.repositoryName}/${node.branch.name}`);
+    }
+
+    /**
+     * Open the recent commit log of a stale branch in an editor
+     */
+    public async openBranchLog(node: StaleTreeNode | undefined): Promise<void> {
+        if (node?.kind !== 'branch') {
+            return;
+        }
+        const branch = node.branch;
+        try {
+            const git: SimpleGit = createGit(branch.repositoryPath, this.getGitOptions(branch.repositoryPath));
+            const log = await git.raw(['log', '-n', '50', '--format=%h %ad %an%n    %s', '--date=short', branch.name, '--']);
+            const document = await vscode.workspace.openTextDocument({
+                content: `${branch.repositoryName}: ${branch.name}\n\n${log}`,
+                language: 'log'
+            });
+            await vscode.window.showTextDocument(document, { preview: true });
+        } catch (error) {
+            this.logger.error(`Failed to read log for ${branch.repositoryName}/${branch.name}: ${error}`);
+            vscode.window.showErrorMessage(`Failed to read log for ${branch.name}: ${error}`);
+        }
+    }
+
+    /**
+     * Check out a stale branch, e.g. to inspect it before deciding to delete
+     */
+    public async checkoutBranch(node: StaleTreeNode | undefined): Promise<void> {
+        if (node?.kind !== 'branch') {
+            return;
+        }
+        const branch = node.branch;
+        try {
+            const git: SimpleGit = createGit(branch.repositoryPath, this.getGitOptions(branch.repositoryPath));
+            await git.checkout(branch.name);
+            this.logger.info(`Checked out branch: ${branch.repositoryName}/${branch.name}`);
+            // The current branch is never stale, so drop it from the view
+            this.staleBranchesProvider.removeBranches([branch]);
+            await this.scanCache.removeBranches([branch]);
+        } catch (error) {
+            this.logger.error(`Failed to check out ${branch.repositoryName}/${branch.name}: ${error}`);
+            vscode.window.showErrorMessage(`Failed to check out ${branch.name}: ${error}`);
+        }
+    }
+
+    /**
+     * Prune stale branches from active repository only
+     */
+    public async pruneStaleActiveRepository(args: PruneCommandArgs = {}): Promise<StaleBranchReport | undefined> {
+        const activeRepo = await this.getActiveRepository();
+        if (!activeRepo) {
+            vscode.window.showErrorMessage('No active git repository found');
+            return undefined;
+        }
+        
+        return this.startPruneRun({ ...this.getRunOptions(args), scope: 'activeRepository', repositories: [activeRepo] });
+    }
+
+    /**
+     * Show status of pruneable branches without deleting
+     */
+    public async showPruneableStatus(args: PruneCommandArgs = {}): Promise<StaleBranchReport | undefined> {
+        return this.startPruneRun({ ...this.getRunOptions(args), identifyOnly: true });
+    }
+
+    /**
+     * Show menu with prune options
+     */
+    public async showPruneMenu(): Promise<void> {
+        const items = [
+            {
+                label: "$(git-branch) Prune Stale Local Branches",
+                description: "Delete local branches that no longer exist on remote",
+                action: 'prune'
+            },
             {
                 label: "$(eye) Identify Stale Branches",
                 description: "Show which branches are stale without deleting them",
                 action: 'identify'
+            },
+            {
+                label: "$(cloud) Prune Merged Remote Branches",
+                description: "Delete your merged branches from the server",
+                action: 'pruneRemote'
+            },
+            {
+                label: "$(export) Export Stale Branch Report",
+                description: "Save the latest scan as JSON, Markdown or CSV",
+                action: 'export'
+            },
+            {
+                label: "$(graph) Show Branch Hygiene Dashboard",
+                description: "Branch counts, stale trends and deletions per repository",
+                action: 'dashboard'
+            },
+            {
+                label: "$(history) Restore Pruned Branch",
+                description: "Recreate a recently pruned branch from the prune journal",
+                action: 'restore'
+            },
+            {
+                label: "$(archive) Restore Archived Branch",
+                description: "Recreate a branch from an archive ref, tag or bundle",
+                action: 'restoreArchived'
             }
         ];
 
@@ -471,10 +1774,106 @@ export class GitBranchPruner {
                 case 'identify':
                     await this.showPruneableStatus();
                     break;
+                case 'pruneRemote':
+                    await this.pruneRemoteBranches();
+                    break;
+                case 'export':
+                    await this.exportStaleBranchReport();
+                    break;
+                case 'dashboard':
+                    await this.showDashboard();
+                    break;
+                case 'restore':
+                    await this.restorePrunedBranch();
+                    break;
+                case 'restoreArchived':
+                    await this.restoreArchivedBranch();
+                    break;
             }
         }
     }
 
+    /**
+     * Delete stale branches that the auto-prune policy allows deleting without
+     * a prompt. Returns the branches that were deleted or deferred to a later run.
+     */
+    private async autoPrune(branches: StaleBranch[]): Promise<Set<StaleBranch>> {
+        const config = this.getConfiguration();
+        if (config.get<boolean>('identifyOnly', false)) {
+            return new Set();
+        }
+        
+        // Auto-prune is enabled and aged per repository, while the per-run limit is shared
+        const selection: { eligible: StaleBranch[]; deferred: StaleBranch[] } = { eligible: [], deferred: [] };
+        let remaining = Math.max(1, config.get<number>('autoPrune.maxPerRun', 10));
+        for (const [repositoryPath, repositoryBranches] of groupByRepository(branches)) {
+            const repositoryConfig = this.getConfiguration(repositoryPath);
+            if (!repositoryConfig.get<boolean>('autoPrune.enabled', false)) {
+                continue;
+            }
+            const repositorySelection = selectAutoPruneBranches(repositoryBranches, {
+                minAgeDays: repositoryConfig.get<number>('autoPrune.minAgeDays', 14),
+                maxPerRun: remaining
+            });
+            selection.eligible.push(...repositorySelection.eligible);
+            selection.deferred.push(...repositorySelection.deferred);
+            remaining -= repositorySelection.eligible.length;
+        }
+        if (selection.deferred.length > 0) {
+            this.logger.info(`Auto-prune: ${selection.deferred.length} more branch(es) are over the per-run limit and wait for the next scan`);
+        }
+        if (selection.eligible.length === 0) {
+            return new Set(selection.deferred);
+        }
+        
+        this.logger.info(`Auto-prune: deleting ${selection.eligible.length} merged branch(es) with a gone upstream`);
+        // Nobody is asked to confirm, so stashes block the deletion too
+        const result = await this.runPrune(selection.eligible, {
+            blockOnWarnings: true,
+            approveHooks: (repositoryPath, hooks) => this.approveHooks(repositoryPath, hooks, false)
+        });
+        if (result.deleted.length > 0) {
+            const summary = this.context.globalState.get<AutoPruneSummary>(GitBranchPruner.autoPruneSummaryKey);
+            await this.context.globalState.update(GitBranchPruner.autoPruneSummaryKey, addToSummary(summary, result.deleted));
+        }
+        
+        // Branches that failed to delete or were blocked go back to the notification
+        const failed = new Set([...result.failed.map(failure => failure.branch), ...result.blocked.map(found => found.branch)]);
+        return new Set([...selection.eligible.filter(branch => !failed.has(branch)), ...selection.deferred]);
+    }
+
+    /**
+     * Once a day, tell the user which branches auto-prune deleted
+     */
+    private async showAutoPruneSummaryIfDue(): Promise<void> {
+        const summary = this.context.globalState.get<AutoPruneSummary>(GitBranchPruner.autoPruneSummaryKey);
+        if (!isSummaryDue(summary)) {
+            return;
+        }
+        await this.context.globalState.update(GitBranchPruner.autoPruneSummaryKey, undefined);
+        
+        const config = vscode.workspace.getConfiguration('gitBranchPruner');
+        if (!config.get<boolean>('showNotifications', true)) {
+            return;
+        }
+        const count = summary.deleted.length;
+        const shown = summary.deleted.slice(0, 5).map(entry => `${entry.repositoryName}/${entry.branch}`);
+        if (count > shown.length) {
+            shown.push(`and ${count - shown.length} more`);
+        }
+        vscode.window.showInformationMessage(
+            `Auto-prune deleted ${count} merged branch${count > 1 ? 'es' : ''} since yesterday: ${shown.join(', ')}`,
+            'Restore Branch',
+            'Show Output'
+        ).then(choice => {
+            if (choice === 'Restore Branch') {
+                this.restorePrunedBranch();
+            } else if (choice === 'Show Output') {
+                this.outputChannel.show();
+            }
+        });
+    }
+
     /**
      * Show notification when stale branches are found by auto-scan
      */
@@ -486,75 +1885,252 @@ export class GitBranchPruner {
         }).join(', ');
 
         const message = `Found ${totalCount} stale local branch${totalCount > 1 ? 'es' : ''} in: ${repoList}`;
+        const branches = Object.values(reposWithStaleBranches).flat();
+        const repositoryPaths = [...new Set(branches.map(b => b.repositoryPath))];
 
         const config = vscode.workspace.getConfiguration('gitBranchPruner');
         const identifyOnly = config.get<boolean>('identifyOnly', false);
 
-        if (identifyOnly) {
-            // Identify Only mode - just show snooze option
-            const choice = await vscode.window.showInformationMessage(message, 'Snooze');
-            if (choice === 'Snooze') {
-                await this.showSnoozeOptions();
-            }
-        } else {
-            // Normal mode - show prune options
-            const choice = await vscode.window.showInformationMessage(
-                message, 
-                'Prune Now', 
-                'Snooze'
-            );
-
-            if (choice) {
-                switch (choice) {
-                    case 'Prune Now':
-                        await this.pruneStaleProBranches();
-                        break;
-                    case 'Snooze':
-                        await this.showSnoozeOptions();
-                        break;
-                }
-            }
+        // Identify Only mode offers no deletion
+        const actions = identifyOnly ? ['Ignore...', 'Snooze'] : ['Prune Now', 'Ignore...', 'Snooze'];
+        const choice = await vscode.window.showInformationMessage(message, ...actions);
+        switch (choice) {
+            case 'Prune Now':
+                await this.pruneStaleProBranches();
+                break;
+            case 'Ignore...':
+                await this.ignoreBranches(branches);
+                break;
+            case 'Snooze':
+                await this.showSnoozeOptions(repositoryPaths);
+                break;
         }
     }
 
     /**
-     * Show snooze duration options
+     * Let the user pick a snooze duration and, when repositories are given,
+     * whether to snooze all of them or just one
      */
-    private async showSnoozeOptions(): Promise<void> {
-        const options = [
+    public async showSnoozeOptions(repositoryPaths: string[] = []): Promise<void> {
+        const hour = 60 * 60 * 1000;
+        const options: (vscode.QuickPickItem & { until?: () => number | undefined })[] = [
             {
                 label: '1 hour',
                 description: 'Pause auto-scan notifications for 1 hour',
-                hours: 1
+                until: () => Date.now() + hour
             },
             {
                 label: '4 hours',
                 description: 'Pause auto-scan notifications for 4 hours',
-                hours: 4
+                until: () => Date.now() + 4 * hour
             },
             {
                 label: '24 hours',
                 description: 'Pause auto-scan notifications for 1 day',
-                hours: 24
+                until: () => Date.now() + 24 * hour
+            },
+            {
+                label: 'Until tomorrow 9am',
+                description: new Date(tomorrowMorning()).toLocaleString(),
+                until: () => tomorrowMorning()
+            },
+            {
+                label: 'Custom...',
+                description: 'Enter a duration such as 90m, 2h or 3d'
             }
         ];
+        const snoozedUntil = this.snoozeState.getSnoozedUntil();
+        if (snoozedUntil || this.snoozeState.getSnoozedRepositories().length > 0) {
+            options.push({
+                label: 'Resume notifications',
+                description: snoozedUntil ? `Snoozed until ${new Date(snoozedUntil).toLocaleString()}` : 'Some repositories are snoozed',
+                until: () => undefined
+            });
+        }
 
         const selected = await vscode.window.showQuickPick(options, {
             placeHolder: 'How long would you like to snooze auto-scan notifications?'
         });
+        if (!selected) {
+            return;
+        }
+        if (selected.label === 'Resume notifications') {
+            await this.snoozeState.clear();
+            this.logger.info('Snooze cleared');
+            vscode.window.showInformationMessage('Auto-scan notifications resumed');
+            return;
+        }
 
-        if (selected) {
-            this.snoozeNotifications(selected.hours);
+        let until = selected.until?.();
+        if (!until) {
+            const input = await vscode.window.showInputBox({
+                prompt: 'Snooze for how long?',
+                placeHolder: '90m, 2h, 3d',
+                validateInput: value => parseDuration(value) ? undefined : 'Enter a number followed by m, h or d'
+            });
+            const duration = input ? parseDuration(input) : undefined;
+            if (!duration) {
+                return;
+            }
+            until = Date.now() + duration;
+        }
+
+        let repositoryPath: string | undefined;
+        if (repositoryPaths.length > 0) {
+            const scope = await vscode.window.showQuickPick([
+                { label: 'All repositories', description: 'Pause auto-scan', repositoryPath: undefined },
+                ...repositoryPaths.map(repo => ({ label: path.basename(repo), description: repo, repositoryPath: repo }))
+            ], { placeHolder: 'Snooze all repositories or just one?' });
+            if (!scope) {
+                return;
+            }
+            repositoryPath = scope.repositoryPath;
         }
+
+        await this.snoozeNotifications(until, repositoryPath);
     }
 
     /**
-     * Snooze notifications for specified hours
+     * Persist a snooze for all repositories or for one
      */
-    private snoozeNotifications(hours: number): void {
-        this.notificationSnoozeUntil = Date.now() + (hours * 60 * 60 * 1000);
-        this.outputChannel.appendLine(`Notifications snoozed for ${hours} hour(s)`);
-        vscode.window.showInformationMessage(`Auto-scan notifications snoozed for ${hours} hour(s)`);
+    private async snoozeNotifications(until: number, repositoryPath?: string): Promise<void> {
+        await this.snoozeState.snooze(until, repositoryPath);
+        const target = repositoryPath ? ` for ${path.basename(repositoryPath)}` : '';
+        const untilText = new Date(until).toLocaleString();
+        this.logger.info(`Notifications${target} snoozed until ${untilText}`);
+        vscode.window.showInformationMessage(`Auto-scan notifications${target} snoozed until ${untilText}`);
+    }
+
+    /**
+     * Ask which of the given branches to ignore and how broadly, then add the
+     * ignore rule and drop matching branches from the view
+     */
+    private async ignoreBranches(branches: StaleBranch[]): Promise<void> {
+        let selected = branches;
+        if (branches.length > 1) {
+            const picked = await vscode.window.showQuickPick(
+                branches.map(branch => ({ label: branch.name, description: branch.repositoryName, branch })),
+                { placeHolder: 'Which branches should never be flagged again?', canPickMany: true }
+            );
+            if (!picked || picked.length === 0) {
+                return;
+            }
+            selected = picked.map(item => item.branch);
+        }
+        if (selected.length === 0) {
+            return;
+        }
+
+        const first = selected[0];
+        const scope = await vscode.window.showQuickPick([
+            { label: selected.length > 1 ? 'These branches' : `Branch "${first.name}"`, description: 'In this repository only', ruleKind: 'branch' as const },
+            { label: 'Branches matching a pattern...', description: 'Glob or /regex/', ruleKind: 'pattern' as const },
+            { label: `Every branch in ${first.repositoryName}`, description: selected.some(b => b.repositoryPath !== first.repositoryPath) ? 'And the other selected repositories' : undefined, ruleKind: 'repository' as const }
+        ], { placeHolder: 'Ignore' });
+        if (!scope) {
+            return;
+        }
+
+        const rules: Omit<IgnoreRule, 'id' | 'createdAt'>[] = [];
+        if (scope.ruleKind === 'branch') {
+            rules.push(...selected.map(b => ({ kind: 'branch' as const, repositoryPath: b.repositoryPath, value: b.name })));
+        } else if (scope.ruleKind === 'repository') {
+            rules.push(...[...new Set(selected.map(b => b.repositoryPath))].map(repositoryPath => ({ kind: 'repository' as const, repositoryPath })));
+        } else {
+            // Suggest the branch's folder, e.g. "experiment/*" for "experiment/foo"
+            const slash = first.name.lastIndexOf('/');
+            const pattern = await vscode.window.showInputBox({
+                prompt: 'Never flag branches matching this glob or /regex/',
+                value: slash > 0 ? `${first.name.substring(0, slash)}/*` : first.name
+            });
+            if (!pattern) {
+                return;
+            }
+            const where = await vscode.window.showQuickPick([
+                { label: 'All repositories', repositoryPath: undefined },
+                ...[...new Set(selected.map(b => b.repositoryPath))].map(repo => ({ label: path.basename(repo), description: repo, repositoryPath: repo }))
+            ], { placeHolder: `Ignore "${pattern}" in` });
+            if (!where) {
+                return;
+            }
+            rules.push({ kind: 'pattern', repositoryPath: where.repositoryPath, value: pattern });
+        }
+
+        for (const rule of rules) {
+            const added = await this.ignoreList.add(rule);
+            this.logger.info(`Ignoring ${describeIgnoreRule(added)}`);
+        }
+        await this.applyIgnoreRulesToCache();
+    }
+
+    /**
+     * Ignore a branch or repository from the Stale Branches view
+     */
+    public async ignoreFromView(node: StaleTreeNode | undefined): Promise<void> {
+        if (node?.kind === 'branch') {
+            await this.ignoreBranches([node.branch]);
+        } else if (node?.kind === 'repository') {
+            const added = await this.ignoreList.add({ kind: 'repository', repositoryPath: node.repositoryPath });
+            this.logger.info(`Ignoring ${describeIgnoreRule(added)}`);
+            await this.applyIgnoreRulesToCache();
+        }
+    }
+
+    /**
+     * Snooze notifications for a repository from the Stale Branches view, or
+     * pick a snooze for everything from the command palette
+     */
+    public async snoozeFromView(node: StaleTreeNode | undefined): Promise<void> {
+        const repositoryPath = node?.kind === 'repository' ? node.repositoryPath : node?.branch.repositoryPath;
+        await this.showSnoozeOptions(repositoryPath ? [repositoryPath] : []);
+    }
+
+    /**
+     * Review ignore rules and remove the selected ones
+     */
+    public async manageIgnoredBranches(): Promise<void> {
+        const rules = this.ignoreList.getRules();
+        if (rules.length === 0) {
+            vscode.window.showInformationMessage('No ignored branches. Use "Ignore" on a notification or in the Stale Branches view to add some.');
+            return;
+        }
+
+        const selected = await vscode.window.showQuickPick(rules.map(rule => ({
+            label: `$(${rule.kind === 'repository' ? 'repo' : rule.kind === 'pattern' ? 'regex' : 'git-branch'}) ${describeIgnoreRule(rule)}`,
+            description: `added ${new Date(rule.createdAt).toLocaleDateString()}`,
+            detail: rule.repositoryPath,
+            rule
+        })), {
+            placeHolder: 'Select ignore rules to remove',
+            canPickMany: true,
+            matchOnDetail: true
+        });
+        if (!selected || selected.length === 0) {
+            return;
+        }
+
+        await this.ignoreList.remove(selected.map(item => item.rule.id));
+        for (const item of selected) {
+            this.logger.info(`No longer ignoring ${describeIgnoreRule(item.rule)}`);
+        }
+        vscode.window.showInformationMessage(`Removed ${selected.length} ignore rule(s)`);
+
+        // Branches that are no longer ignored only show up after a rescan
+        await this.rescanWithoutFetch(this.scanCache.getAll().map(scan => scan.repositoryPath));
+    }
+
+    /**
+     * Hide newly ignored branches from the cached results and the view
+     */
+    private async applyIgnoreRulesToCache(): Promise<void> {
+        const rules = this.ignoreList.getRules();
+        for (const scan of this.scanCache.getAll()) {
+            const filtered = applyIgnoreRules(scan, rules);
+            if (filtered.staleBranches.length !== scan.staleBranches.length) {
+                this.staleBranchesProvider.setScan(filtered);
+                await this.scanCache.set(filtered);
+            }
+        }
     }
 
     /**
@@ -564,7 +2140,18 @@ export class GitBranchPruner {
         if (this.autoScanTimer) {
             clearInterval(this.autoScanTimer);
         }
-        this.statusBarItem.dispose();
+        if (this.archiveCleanupTimer) {
+            clearInterval(this.archiveCleanupTimer);
+        }
+        this.autoScanAbortController?.abort();
+        this.staleBranchesView.dispose();
+        this.staleBranchesProvider.dispose();
+        this.scanCache.dispose();
+        this.statusBar.dispose();
+        this.refsWatcher.dispose();
+        this.onDidScanEmitter.dispose();
+        this.onDidPruneEmitter.dispose();
+        this.dashboard.dispose();
         this.outputChannel.dispose();
     }
 }
@@ -572,9 +2159,9 @@ export class GitBranchPruner {
 let pruner: GitBranchPruner | undefined;
 
 /**
- * Extension activation function
+ * Extension activation function, returning the public API for other extensions
  */
-export function activate(context: vscode.ExtensionContext) {
+export function activate(context: vscode.ExtensionContext): GitBranchPrunerApi {
     console.log('Git Branch Pruner extension is now active');
     
     pruner = new GitBranchPruner(context);
@@ -584,20 +2171,70 @@ export function activate(context: vscode.ExtensionContext) {
         vscode.commands.registerCommand('gitBranchPruner.showMenu', () => {
             pruner?.showPruneMenu();
         }),
-        vscode.commands.registerCommand('gitBranchPruner.pruneStale', () => {
-            pruner?.pruneStaleProBranches();
+        vscode.commands.registerCommand('gitBranchPruner.pruneStale', (args?: unknown) => {
+            return pruner?.pruneStaleProBranches(parsePruneCommandArgs(args));
+        }),
+        vscode.commands.registerCommand('gitBranchPruner.pruneStaleActiveRepo', (args?: unknown) => {
+            return pruner?.pruneStaleActiveRepository(parsePruneCommandArgs(args));
+        }),
+        vscode.commands.registerCommand('gitBranchPruner.showPruneableStatus', (args?: unknown) => {
+            return pruner?.showPruneableStatus(parsePruneCommandArgs(args));
+        }),
+        vscode.commands.registerCommand('gitBranchPruner.pruneRemoteBranches', () => {
+            return pruner?.pruneRemoteBranches();
         }),
-        vscode.commands.registerCommand('gitBranchPruner.pruneStaleActiveRepo', () => {
-            pruner?.pruneStaleActiveRepository();
+        vscode.commands.registerCommand('gitBranchPruner.setPullRequestToken', () => {
+            return pruner?.setPullRequestToken();
         }),
-        vscode.commands.registerCommand('gitBranchPruner.showPruneableStatus', () => {
-            pruner?.showPruneableStatus();
+        vscode.commands.registerCommand('gitBranchPruner.exportReport', (format?: ReportFormat, target?: vscode.Uri) => {
+            return pruner?.exportStaleBranchReport(format, target);
+        }),
+        vscode.commands.registerCommand('gitBranchPruner.showDashboard', () => {
+            return pruner?.showDashboard();
+        }),
+        vscode.commands.registerCommand('gitBranchPruner.showAuditLog', () => {
+            return pruner?.showAuditLog();
+        }),
+        vscode.commands.registerCommand('gitBranchPruner.restorePrunedBranch', () => {
+            pruner?.restorePrunedBranch();
+        }),
+        vscode.commands.registerCommand('gitBranchPruner.restoreArchivedBranch', () => {
+            pruner?.restoreArchivedBranch();
+        }),
+        vscode.commands.registerCommand('gitBranchPruner.refreshStaleBranches', () => {
+            return pruner?.refreshStaleBranchesView();
+        }),
+        vscode.commands.registerCommand('gitBranchPruner.pruneCheckedBranches', () => {
+            pruner?.pruneCheckedBranches();
+        }),
+        vscode.commands.registerCommand('gitBranchPruner.deleteBranch', (node?: StaleTreeNode) => {
+            pruner?.deleteBranchFromView(node);
+        }),
+        vscode.commands.registerCommand('gitBranchPruner.keepBranch', (node?: StaleTreeNode) => {
+            pruner?.keepBranch(node);
+        }),
+        vscode.commands.registerCommand('gitBranchPruner.openBranchLog', (node?: StaleTreeNode) => {
+            pruner?.openBranchLog(node);
+        }),
+        vscode.commands.registerCommand('gitBranchPruner.checkoutBranch', (node?: StaleTreeNode) => {
+            pruner?.checkoutBranch(node);
+        }),
+        vscode.commands.registerCommand('gitBranchPruner.ignoreBranch', (node?: StaleTreeNode) => {
+            pruner?.ignoreFromView(node);
+        }),
+        vscode.commands.registerCommand('gitBranchPruner.snooze', (node?: StaleTreeNode) => {
+            pruner?.snoozeFromView(node);
+        }),
+        vscode.commands.registerCommand('gitBranchPruner.manageIgnoredBranches', () => {
+            pruner?.manageIgnoredBranches();
         })
 
     ];
     
     context.subscriptions.push(...commands);
     context.subscriptions.push(pruner);
+    
+    return pruner.createApi();
 }
 
 /**
@@ -0,0 +1,46 @@
+import * as path from 'path';
+import * as fs from 'fs';
+import { SimpleGit } from 'simple-git';
+
+/**
+ * When to contact remotes before scanning
+ * - always: fetch and prune every remote on every scan
+ * - ifOlderThan: only fetch when the last fetch is older than the configured age
+ * - never: use the remote-tracking refs already on disk
+ */
+export type FetchPolicy = 'always' | 'ifOlderThan' | 'never';
+
+/**
+ * Get the time of the last fetch from the modification time of FETCH_HEAD,
+ * or undefined if the repository has never been fetched
+ */
+export async function getLastFetchTime(git: SimpleGit, repositoryPath: string): Promise<number | undefined> {
+    const fetchHead = (await git.raw(['rev-parse', '--git-path', 'FETCH_HEAD'])).trim();
+    try {
+        const stats = await fs.promises.stat(path.resolve(repositoryPath, fetchHead));
+        return stats.mtimeMs;
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Decide whether a scan should fetch, returning the reason when it should not
+ */
+export async function getSkipFetchReason(git: SimpleGit, repositoryPath: string, policy: FetchPolicy, maxAgeMinutes: number): Promise<string | undefined> {
+    if (policy === 'always') {
+        return undefined;
+    }
+    if (policy === 'never') {
+        return 'fetch policy is "never"';
+    }
+
+    const lastFetch = await getLastFetchTime(git, repositoryPath);
+    if (lastFetch === undefined) {
+        return undefined;
+    }
+    const ageMinutes = Math.floor((Date.now() - lastFetch) / (60 * 1000));
+    return ageMinutes < maxAgeMinutes
+        ? `last fetch was ${ageMinutes} minute(s) ago`
+        : undefined;
+}
@@ -0,0 +1,84 @@
+import { GitPluginError, simpleGit, SimpleGit } from 'simple-git';
+
+/**
+ * Options applied to every git process spawned for a repository
+ */
+export interface GitOptions {
+    /** Kill a git process that produces no output for this long; 0 disables the timeout */
+    timeoutMs?: number;
+    /** Kill running and pending git processes when aborted */
+    signal?: AbortSignal;
+}
+
+/**
+ * Why a git operation against a repository failed
+ */
+export type GitFailureKind = 'auth' | 'offline' | 'timeout' | 'cancelled' | 'notARepository' | 'unknown';
+
+/**
+ * A structured git failure
+ */
+export interface GitFailure {
+    kind: GitFailureKind;
+    message: string;
+}
+
+/**
+ * Create a simple-git instance with timeout and cancellation support
+ */
+export function createGit(baseDir: string, options: GitOptions = {}): SimpleGit {
+    return simpleGit({
+        baseDir,
+        timeout: options.timeoutMs ? { block: options.timeoutMs } : undefined,
+        abort: options.signal
+    });
+}
+
+/**
+ * Classify an error thrown by simple-git so callers can report why a repository failed
+ */
+export function classifyGitError(error: unknown): GitFailure {
+    const message = error instanceof Error ? error.message.trim() : String(error);
+
+    if (error instanceof GitPluginError) {
+        if (error.plugin === 'timeout') {
+            return { kind: 'timeout', message };
+        }
+        if (error.plugin === 'abort') {
+            return { kind: 'cancelled', message };
+        }
+    }
+
+    // Order matters: auth failures over SSH also print "Could not read from remote repository"
+    if (/Authentication failed|could not read (Username|Password)|terminal prompts disabled|Permission denied \(publickey|HTTP Basic: Access denied|returned error: 40[13]/i.test(message)) {
+        return { kind: 'auth', message };
+    }
+    if (/Could not resolve host|unable to access|Connection (timed out|refused)|Network is unreachable|Could not read from remote repository/i.test(message)) {
+        return { kind: 'offline', message };
+    }
+    if (/not a git repository/i.test(message)) {
+        return { kind: 'notARepository', message };
+    }
+
+    return { kind: 'unknown', message };
+}
+
+/**
+ * Human readable label for a failure kind
+ */
+export function describeGitFailure(failure: GitFailure): string {
+    switch (failure.kind) {
+        case 'auth':
+            return 'authentication failed';
+        case 'offline':
+            return 'remote unreachable';
+        case 'timeout':
+            return 'timed out';
+        case 'cancelled':
+            return 'cancelled';
+        case 'notARepository':
+            return 'not a git repository';
+        default:
+            return 'failed';
+    }
+}
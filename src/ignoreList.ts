@@ -0,0 +1,120 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { RepositoryScan, StaleBranch } from './types';
+import { matchesPattern } from './patterns';
+
+/**
+ * What an ignore rule matches
+ * - branch: one branch in one repository
+ * - repository: every branch in one repository
+ * - pattern: branches matching a glob or /regex/, in one repository or in all of them
+ */
+export type IgnoreRuleKind = 'branch' | 'repository' | 'pattern';
+
+/**
+ * A user decision to never flag matching branches as stale
+ */
+export interface IgnoreRule {
+    id: string;
+    kind: IgnoreRuleKind;
+    /** Repository the rule is limited to; only optional for patterns */
+    repositoryPath?: string;
+    /** Branch name for `branch` rules, glob or /regex/ for `pattern` rules */
+    value?: string;
+    createdAt: number;
+}
+
+/**
+ * Whether an ignore rule matches a branch
+ */
+export function matchesIgnoreRule(branch: StaleBranch, rule: IgnoreRule): boolean {
+    if (rule.repositoryPath && rule.repositoryPath !== branch.repositoryPath) {
+        return false;
+    }
+    switch (rule.kind) {
+        case 'branch':
+            return rule.value === branch.name;
+        case 'repository':
+            return true;
+        case 'pattern':
+            return rule.value !== undefined && matchesPattern(branch.name, rule.value);
+    }
+}
+
+/**
+ * Short description of an ignore rule for lists and skip reasons
+ */
+export function describeIgnoreRule(rule: IgnoreRule): string {
+    const repository = rule.repositoryPath ? path.basename(rule.repositoryPath) : 'all repositories';
+    switch (rule.kind) {
+        case 'branch':
+            return `branch "${rule.value}" in ${repository}`;
+        case 'repository':
+            return `every branch in ${repository}`;
+        case 'pattern':
+            return `branches matching "${rule.value}" in ${repository}`;
+    }
+}
+
+/**
+ * Move stale branches matched by an ignore rule to the skipped branches
+ */
+export function applyIgnoreRules(scan: RepositoryScan, rules: IgnoreRule[]): RepositoryScan {
+    if (rules.length === 0) {
+        return scan;
+    }
+    const staleBranches: StaleBranch[] = [];
+    const skippedBranches = [...scan.skippedBranches];
+    for (const branch of scan.staleBranches) {
+        const rule = rules.find(r => matchesIgnoreRule(branch, r));
+        if (rule) {
+            skippedBranches.push({ name: branch.name, reason: `ignored: ${describeIgnoreRule(rule)}` });
+        } else {
+            staleBranches.push(branch);
+        }
+    }
+    return { ...scan, staleBranches, skippedBranches };
+}
+
+/**
+ * Ignore rules stored in global state, so they apply in every window and workspace
+ */
+export class IgnoreList {
+    private static readonly storageKey = 'gitBranchPruner.ignoreRules';
+
+    constructor(private readonly state: vscode.Memento) {}
+
+    /**
+     * Get all ignore rules, oldest first
+     */
+    public getRules(): IgnoreRule[] {
+        return this.state.get<IgnoreRule[]>(IgnoreList.storageKey, []);
+    }
+
+    /**
+     * Add a rule unless an identical one exists
+     */
+    public async add(rule: Omit<IgnoreRule, 'id' | 'createdAt'>): Promise<IgnoreRule> {
+        const rules = this.getRules();
+        const existing = rules.find(r => r.kind === rule.kind && r.repositoryPath === rule.repositoryPath && r.value === rule.value);
+        if (existing) {
+            return existing;
+        }
+        const createdAt = Date.now();
+        const added: IgnoreRule = {
+            ...rule,
+            id: `${createdAt.toString(36)}-${Math.random().toString(36).substring(2, 8)}`,
+            createdAt
+        };
+        await this.state.update(IgnoreList.storageKey, [...rules, added]);
+        return added;
+    }
+
+    /**
+     * Remove rules by id
+     */
+    public async remove(ids: string[]): Promise<void> {
+        const removed = new Set(ids);
+        await this.state.update(IgnoreList.storageKey, this.getRules().filter(rule => !removed.has(rule.id)));
+    }
+}
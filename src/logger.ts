@@ -0,0 +1,79 @@
+/**
+ * How much is logged, from nothing to every git decision
+ */
+export type LogLevel = 'off' | 'error' | 'warn' | 'info' | 'debug' | 'trace';
+
+/**
+ * The level of a single message
+ */
+export type MessageLevel = Exclude<LogLevel, 'off'>;
+
+/**
+ * Log levels from least to most verbose
+ */
+export const logLevels: LogLevel[] = ['off', 'error', 'warn', 'info', 'debug', 'trace'];
+
+/**
+ * Log callback of code without access to the logger, e.g. the pruning engine.
+ * Messages without a level are info.
+ */
+export type LogFunction = (message: string, level?: MessageLevel) => void;
+
+/**
+ * Where messages end up, e.g. VS Code's `LogOutputChannel`
+ */
+export type LogSink = Record<MessageLevel, (message: string) => void>;
+
+/**
+ * Drops messages more verbose than the configured level and passes the rest
+ * to the sink with their level
+ */
+export class Logger {
+    constructor(
+        private readonly sink: LogSink,
+        private level: LogLevel = 'info'
+    ) {}
+
+    /**
+     * Change the level, e.g. when the setting changes
+     */
+    public setLevel(level: LogLevel): void {
+        this.level = logLevels.includes(level) ? level : 'info';
+    }
+
+    /**
+     * Whether messages of a level are currently logged
+     */
+    public isEnabled(level: MessageLevel): boolean {
+        return logLevels.indexOf(level) <= logLevels.indexOf(this.level);
+    }
+
+    /**
+     * Log a message at a level, info by default
+     */
+    public log(message: string, level: MessageLevel = 'info'): void {
+        if (this.isEnabled(level)) {
+            this.sink[level](message);
+        }
+    }
+
+    public error(message: string): void {
+        this.log(message, 'error');
+    }
+
+    public warn(message: string): void {
+        this.log(message, 'warn');
+    }
+
+    public info(message: string): void {
+        this.log(message, 'info');
+    }
+
+    public debug(message: string): void {
+        this.log(message, 'debug');
+    }
+
+    public trace(message: string): void {
+        this.log(message, 'trace');
+    }
+}
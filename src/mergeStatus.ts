@@ -0,0 +1,236 @@
+import { spawn } from 'child_process';
+import { SimpleGit } from 'simple-git';
+import { LogFunction } from './logger';
+import { RemoteDefaultBranch } from './protectedBranches';
+import { PullRequestInfo } from './pullRequests';
+
+/**
+ * How a branch relates to the repository's default branch
+ * - merged: every commit is reachable from the default branch
+ * - squashMerged: the changes landed as patch-equivalent commits (squash or rebase merge)
+ * - unmerged: the branch contains commits that would be lost on deletion
+ * - unknown: no default branch could be determined to compare against
+ */
+export type MergeStatus = 'merged' | 'squashMerged' | 'unmerged' | 'unknown';
+
+/**
+ * A commit that only exists on the branch being classified
+ */
+export interface UniqueCommit {
+    sha: string;
+    subject: string;
+}
+
+/**
+ * How far a branch has diverged from the default branch
+ */
+export interface AheadBehind {
+    ahead: number;
+    behind: number;
+}
+
+/**
+ * Result of classifying a branch against the default branch
+ */
+export interface BranchClassification {
+    mergeStatus: MergeStatus;
+    uniqueCommits: UniqueCommit[];
+}
+
+/**
+ * Resolve the ref of the default branch to compare against, preferring the
+ * HEAD of "origin" and then of any other remote
+ */
+export async function getDefaultBranch(git: SimpleGit, remoteDefaultBranches: RemoteDefaultBranch[]): Promise<string | null> {
+    const remoteDefault = remoteDefaultBranches.find(d => d.remote === 'origin') ?? remoteDefaultBranches[0];
+    if (remoteDefault) {
+        return `refs/remotes/${remoteDefault.remote}/${remoteDefault.branch}`;
+    }
+
+    for (const candidate of ['main', 'master']) {
+        if (await refExists(git, `refs/heads/${candidate}`)) {
+            return `refs/heads/${candidate}`;
+        }
+    }
+
+    return null;
+}
+
+/**
+ * Check whether a fully qualified ref exists
+ */
+async function refExists(git: SimpleGit, ref: string): Promise<boolean> {
+    try {
+        const output = await git.raw(['show-ref', '--verify', ref]);
+        return output.trim().length > 0;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Parse `git cherry -v` output into commits that have no equivalent upstream
+ */
+function parseCherry(output: string): { unique: UniqueCommit[]; equivalent: number } {
+    const unique: UniqueCommit[] = [];
+    let equivalent = 0;
+
+    for (const line of output.split('\n')) {
+        const match = /^([+-]) ([0-9a-f]+) ?(.*)$/.exec(line.trim());
+        if (!match) {
+            continue;
+        }
+        if (match[1] === '+') {
+            unique.push({ sha: match[2], subject: match[3] });
+        } else {
+            equivalent++;
+        }
+    }
+
+    return { unique, equivalent };
+}
+
+/**
+ * Options for classifying a branch
+ */
+export interface ClassifyOptions {
+    log?: LogFunction;
+    /** Kill `git patch-id` when it runs longer; 0 disables the timeout */
+    timeoutMs?: number;
+    /** Kill `git patch-id` when aborted */
+    signal?: AbortSignal;
+}
+
+/**
+ * Most recent commits of the default branch searched for a squash merge of a
+ * branch, so old branches don't feed years of history through `git patch-id`
+ */
+export const squashSearchCommitLimit = 500;
+
+/**
+ * Diff options that keep patch IDs independent of the user's diff config
+ */
+const patchIdDiffOptions = ['--no-color', '--no-ext-diff', '--no-textconv', '--no-renames'];
+
+/**
+ * Stable patch IDs of the patches in a diff or `git log -p` output, in order.
+ * `git patch-id` only reads stdin, which simple-git cannot write to, so it
+ * is spawned directly, with the same timeout and cancellation as the other
+ * git processes; it needs no repository and writes no objects.
+ */
+function getPatchIds(patch: string, options: ClassifyOptions): Promise<string[]> {
+    if (!patch.trim()) {
+        return Promise.resolve([]);
+    }
+    return new Promise((resolve, reject) => {
+        const child = spawn('git', ['patch-id', '--stable'], { signal: options.signal, timeout: options.timeoutMs || undefined });
+        let stdout = '';
+        let stderr = '';
+        child.stdout.on('data', data => { stdout += data; });
+        child.stderr.on('data', data => { stderr += data; });
+        child.on('error', reject);
+        child.on('close', (code, signal) => {
+            if (code === null) {
+                reject(new Error(`git patch-id was killed by ${signal}${options.signal?.aborted ? '' : ` after ${options.timeoutMs}ms`}`));
+                return;
+            }
+            if (code !== 0) {
+                reject(new Error(`git patch-id exited with code ${code}: ${stderr.trim()}`));
+                return;
+            }
+            resolve(stdout.split('\n').map(line => line.split(' ')[0]).filter(patchId => patchId));
+        });
+        child.stdin.on('error', () => undefined);
+        child.stdin.end(patch);
+    });
+}
+
+/**
+ * Classify a branch as merged, squash-merged or containing unique commits
+ */
+export async function classifyBranch(git: SimpleGit, branchName: string, defaultBranch: string | null, options: ClassifyOptions = {}): Promise<BranchClassification> {
+    if (!defaultBranch) {
+        return { mergeStatus: 'unknown', uniqueCommits: [] };
+    }
+
+    // Commits on the branch that are not reachable from the default branch
+    const ahead = await git.raw(['rev-list', '--count', `${defaultBranch}..refs/heads/${branchName}`]);
+    if (parseInt(ahead.trim(), 10) === 0) {
+        return { mergeStatus: 'merged', uniqueCommits: [] };
+    }
+
+    // Patch-equivalent commits (rebase merges) show up as "-" in git cherry
+    const cherry = parseCherry(await git.raw(['cherry', '-v', defaultBranch, `refs/heads/${branchName}`]));
+    if (cherry.unique.length === 0) {
+        return { mergeStatus: 'squashMerged', uniqueCommits: [] };
+    }
+
+    // Squash merges collapse the branch into a single commit, so compare the
+    // patch ID of everything the branch changed since it forked with those of
+    // the commits that landed on the default branch since then
+    try {
+        const mergeBase = (await git.raw(['merge-base', defaultBranch, `refs/heads/${branchName}`])).trim();
+        const [branchPatchId] = await getPatchIds(await git.raw(['diff', ...patchIdDiffOptions, mergeBase, `refs/heads/${branchName}`, '--']), options);
+        if (branchPatchId) {
+            const landed = await getPatchIds(await git.raw([
+                'log', '--patch', '--no-merges', `--max-count=${squashSearchCommitLimit}`, '--format=commit %H', ...patchIdDiffOptions, `${mergeBase}..${defaultBranch}`, '--'
+            ]), options);
+            if (landed.includes(branchPatchId)) {
+                return { mergeStatus: 'squashMerged', uniqueCommits: [] };
+            }
+        }
+    } catch (error) {
+        // Unrelated histories have no merge base; treat the commits as unique
+        options.log?.(`  Could not check ${branchName} for a squash merge, treating its commits as unique: ${error}`, 'debug');
+    }
+
+    return { mergeStatus: 'unmerged', uniqueCommits: cherry.unique };
+}
+
+/**
+ * Count commits only on the branch (ahead) and only on the default branch (behind)
+ */
+export async function getAheadBehind(git: SimpleGit, branchName: string, defaultBranch: string): Promise<AheadBehind> {
+    const output = await git.raw(['rev-list', '--left-right', '--count', `${defaultBranch}...refs/heads/${branchName}`]);
+    const [behind, ahead] = output.trim().split(/\s+/).map(count => parseInt(count, 10));
+    return { ahead, behind };
+}
+
+/**
+ * Diff of everything the branch changed since it forked from the default branch
+ */
+export async function getMergeBaseDiff(git: SimpleGit, branchName: string, defaultBranch: string): Promise<string> {
+    // The three-dot form diffs from the merge base to the branch tip
+    return git.raw(['diff', '--stat', '--patch', `${defaultBranch}...refs/heads/${branchName}`, '--']);
+}
+
+/**
+ * Whether a branch can be deleted without losing work
+ */
+export function isSafeToDelete(mergeStatus: MergeStatus): boolean {
+    return mergeStatus === 'merged' || mergeStatus === 'squashMerged';
+}
+
+/**
+ * Whether a branch can be deleted without losing work, also treating a pull
+ * request that was closed without merging as a sign the work was not kept
+ */
+export function isBranchSafeToDelete(branch: { mergeStatus: MergeStatus; pullRequest?: PullRequestInfo }): boolean {
+    return isSafeToDelete(branch.mergeStatus) && branch.pullRequest?.state !== 'closed';
+}
+
+/**
+ * Human readable label for a merge status
+ */
+export function describeMergeStatus(mergeStatus: MergeStatus): string {
+    switch (mergeStatus) {
+        case 'merged':
+            return 'merged';
+        case 'squashMerged':
+            return 'squash-merged';
+        case 'unmerged':
+            return 'unique commits';
+        default:
+            return 'merge status unknown';
+    }
+}
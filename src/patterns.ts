@@ -0,0 +1,53 @@
+/**
+ * Convert a glob pattern to a regular expression.
+ * `*` and `?` stay within one path segment, `**` spans segments.
+ */
+export function globToRegExp(glob: string): RegExp {
+    let source = '';
+    for (let i = 0; i < glob.length; i++) {
+        const char = glob[i];
+        if (char === '*') {
+            if (glob[i + 1] === '*') {
+                // "**/" also matches zero segments
+                if (glob[i + 2] === '/') {
+                    source += '(?:.*/)?';
+                    i += 2;
+                } else {
+                    source += '.*';
+                    i += 1;
+                }
+            } else {
+                source += '[^/]*';
+            }
+        } else if (char === '?') {
+            source += '[^/]';
+        } else {
+            source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+        }
+    }
+    return new RegExp(`^${source}$`);
+}
+
+/**
+ * Convert a pattern to a regular expression. Patterns written as `/source/flags`
+ * are treated as regular expressions, anything else as a glob.
+ */
+export function patternToRegExp(pattern: string): RegExp {
+    const regexMatch = /^\/(.+)\/([a-z]*)$/.exec(pattern);
+    if (regexMatch) {
+        return new RegExp(regexMatch[1], regexMatch[2]);
+    }
+    return globToRegExp(pattern);
+}
+
+/**
+ * Check whether a value matches a glob or `/regex/` pattern.
+ * Invalid regular expressions never match.
+ */
+export function matchesPattern(value: string, pattern: string): boolean {
+    try {
+        return patternToRegExp(pattern).test(value);
+    } catch {
+        return false;
+    }
+}
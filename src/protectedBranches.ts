@@ -0,0 +1,119 @@
+import * as path from 'path';
+import { SimpleGit } from 'simple-git';
+import { matchesPattern } from './patterns';
+
+/**
+ * A protected-branch pattern together with where it was configured
+ */
+export interface ProtectedPattern {
+    pattern: string;
+    source: string;
+}
+
+/**
+ * The branch a remote's HEAD points at, e.g. origin → main
+ */
+export interface RemoteDefaultBranch {
+    remote: string;
+    branch: string;
+}
+
+/**
+ * Everything needed to decide whether a branch is protected from pruning
+ */
+export interface BranchProtectionRules {
+    currentBranch?: string;
+    remoteDefaultBranches: RemoteDefaultBranch[];
+    /** Branches checked out in linked worktrees, mapped to the worktree path */
+    worktreeBranches: Map<string, string>;
+    patterns: ProtectedPattern[];
+}
+
+/**
+ * Read the default branch of every remote from `refs/remotes/<remote>/HEAD`
+ */
+export async function getRemoteDefaultBranches(git: SimpleGit): Promise<RemoteDefaultBranch[]> {
+    const output = await git.raw(['for-each-ref', '--format=%(refname)%00%(symref)', 'refs/remotes']);
+    const defaults: RemoteDefaultBranch[] = [];
+
+    for (const line of output.split('\n')) {
+        const [refName, symref] = line.trim().split('\0');
+        const match = /^refs\/remotes\/(.+)\/HEAD$/.exec(refName ?? '');
+        if (!match || !symref) {
+            continue;
+        }
+        const prefix = `refs/remotes/${match[1]}/`;
+        if (symref.startsWith(prefix)) {
+            defaults.push({ remote: match[1], branch: symref.substring(prefix.length) });
+        }
+    }
+
+    return defaults;
+}
+
+/**
+ * A working tree of a repository and the branch it has checked out, if any
+ */
+export interface Worktree {
+    path: string;
+    branch?: string;
+}
+
+/**
+ * List the main working tree and all linked worktrees of a repository
+ */
+export async function listWorktrees(git: SimpleGit): Promise<Worktree[]> {
+    const output = await git.raw(['worktree', 'list', '--porcelain']);
+    const worktrees: Worktree[] = [];
+
+    for (const line of output.split('\n')) {
+        if (line.startsWith('worktree ')) {
+            worktrees.push({ path: line.substring('worktree '.length) });
+        } else if (line.startsWith('branch refs/heads/') && worktrees.length > 0) {
+            worktrees[worktrees.length - 1].branch = line.substring('branch refs/heads/'.length);
+        }
+    }
+
+    return worktrees;
+}
+
+/**
+ * Find branches checked out in linked worktrees. Deleting those fails or leaves
+ * the worktree on a dangling HEAD, so they are always protected.
+ */
+export async function getWorktreeBranches(git: SimpleGit, repositoryPath: string): Promise<Map<string, string>> {
+    const branches = new Map<string, string>();
+    for (const worktree of await listWorktrees(git)) {
+        // The worktree being scanned is covered by the current-branch check
+        if (worktree.branch && path.resolve(worktree.path) !== path.resolve(repositoryPath)) {
+            branches.set(worktree.branch, worktree.path);
+        }
+    }
+    return branches;
+}
+
+/**
+ * Get the reason a branch is protected, or undefined if it may be pruned
+ */
+export function getProtectionReason(branchName: string, rules: BranchProtectionRules): string | undefined {
+    if (branchName === rules.currentBranch) {
+        return 'currently checked out';
+    }
+
+    const worktreePath = rules.worktreeBranches.get(branchName);
+    if (worktreePath) {
+        return `checked out in worktree ${worktreePath}`;
+    }
+
+    const remoteDefault = rules.remoteDefaultBranches.find(d => d.branch === branchName);
+    if (remoteDefault) {
+        return `default branch of remote "${remoteDefault.remote}"`;
+    }
+
+    const matched = rules.patterns.find(p => matchesPattern(branchName, p.pattern));
+    if (matched) {
+        return `matches protected pattern "${matched.pattern}" (${matched.source})`;
+    }
+
+    return undefined;
+}
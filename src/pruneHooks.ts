@@ -0,0 +1,118 @@
+import { spawn } from 'child_process';
+import { DeletedBranch, StaleBranch } from './types';
+
+/**
+ * When a hook runs
+ * - beforePrune: before each branch is deleted; exiting non-zero keeps the branch
+ * - afterPrune: after each branch was deleted or archived
+ */
+export type PruneHookName = 'beforePrune' | 'afterPrune';
+
+/**
+ * A shell command run once per branch, in the repository root
+ */
+export interface PruneHook {
+    command: string;
+    /** Kill the command when it runs longer; defaults to `defaultHookTimeoutSeconds` */
+    timeoutSeconds?: number;
+}
+
+/**
+ * Hooks as written in the repository config file, either a command or a
+ * command with its own timeout
+ */
+export type PruneHooksConfig = Partial<Record<PruneHookName, string | PruneHook>>;
+
+/**
+ * JSON written to the hook's stdin
+ */
+export interface PruneHookPayload {
+    hook: PruneHookName;
+    /** The branch, with its snapshot and archive ref once it was deleted */
+    branch: StaleBranch | DeletedBranch;
+}
+
+/**
+ * How a hook run ended. `error` is set when the command could not be
+ * started, was killed or timed out; otherwise `exitCode` is.
+ */
+export interface PruneHookResult {
+    exitCode?: number;
+    error?: string;
+    stdout: string;
+    stderr: string;
+}
+
+export const pruneHookNames: PruneHookName[] = ['beforePrune', 'afterPrune'];
+
+export const defaultHookTimeoutSeconds = 30;
+
+/**
+ * Decides whether the hooks of a repository may run. The commands come from a
+ * file in the repository, so whoever prunes has to approve them first.
+ */
+export type HookApproval = (repositoryPath: string, hooks: PruneHooksConfig) => Promise<boolean>;
+
+/**
+ * Names of the hooks a config file sets
+ */
+export function getConfiguredHooks(config: PruneHooksConfig | undefined): PruneHookName[] {
+    return pruneHookNames.filter(name => resolveHook(config, name));
+}
+
+/**
+ * Get a hook from the config file, or undefined when it is not configured
+ */
+export function resolveHook(config: PruneHooksConfig | undefined, name: PruneHookName): PruneHook | undefined {
+    const hook = config?.[name];
+    return typeof hook === 'string' ? { command: hook } : hook;
+}
+
+/**
+ * Run a hook for one branch with the payload on stdin. The branch name and
+ * repository are also passed as environment variables for simple commands.
+ */
+export function runPruneHook(hook: PruneHook, payload: PruneHookPayload): Promise<PruneHookResult> {
+    const timeoutSeconds = hook.timeoutSeconds ?? defaultHookTimeoutSeconds;
+    return new Promise(resolve => {
+        let stdout = '';
+        let stderr = '';
+        const child = spawn(hook.command, {
+            cwd: payload.branch.repositoryPath,
+            shell: true,
+            env: {
+                ...process.env,
+                GIT_BRANCH_PRUNER_HOOK: payload.hook,
+                GIT_BRANCH_PRUNER_BRANCH: payload.branch.name,
+                GIT_BRANCH_PRUNER_REPOSITORY: payload.branch.repositoryPath
+            }
+        });
+        // Don't wait for output pipes that a killed command's children may hold open
+        const timer = setTimeout(() => {
+            child.kill();
+            resolve({ error: `timed out after ${timeoutSeconds}s`, stdout, stderr });
+        }, timeoutSeconds * 1000);
+
+        child.stdout.on('data', data => { stdout += data; });
+        child.stderr.on('data', data => { stderr += data; });
+        child.on('error', error => {
+            clearTimeout(timer);
+            resolve({ error: `could not run "${hook.command}": ${error.message}`, stdout, stderr });
+        });
+        child.on('close', (code, signal) => {
+            clearTimeout(timer);
+            resolve(code === null ? { error: `killed by ${signal}`, stdout, stderr } : { exitCode: code, stdout, stderr });
+        });
+        // Hooks that exit without reading stdin close the pipe early
+        child.stdin.on('error', () => undefined);
+        child.stdin.end(JSON.stringify(payload));
+    });
+}
+
+/**
+ * Why a beforePrune hook kept a branch: the last line it printed, or its exit code
+ */
+export function getVetoReason(result: PruneHookResult): string {
+    const lastLine = (text: string) => text.trim().split('\n').pop()?.trim();
+    return lastLine(result.stdout) || lastLine(result.stderr) || `exited with code ${result.exitCode}`;
+}
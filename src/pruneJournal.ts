@@ -0,0 +1,69 @@
+import * as vscode from 'vscode';
+import { BranchSnapshot } from './branchSnapshot';
+
+/**
+ * A deleted branch recorded with everything needed to recreate it
+ */
+export interface PruneJournalEntry extends BranchSnapshot {
+    id: string;
+    repositoryPath: string;
+    repositoryName: string;
+    branch: string;
+    timestamp: number;
+}
+
+/**
+ * Persistent journal of pruned branches, stored in the extension's global state
+ */
+export class PruneJournal {
+    private static readonly storageKey = 'gitBranchPruner.pruneJournal';
+
+    constructor(private readonly state: vscode.Memento) {}
+
+    /**
+     * Get entries that have not expired, newest first
+     */
+    public getEntries(retentionDays: number): PruneJournalEntry[] {
+        const cutoff = Date.now() - retentionDays * 24 * 60 * 60 * 1000;
+        return this.readAll()
+            .filter(entry => entry.timestamp >= cutoff)
+            .sort((a, b) => b.timestamp - a.timestamp);
+    }
+
+    /**
+     * Record a deleted branch
+     */
+    public async record(entry: Omit<PruneJournalEntry, 'id' | 'timestamp'>): Promise<PruneJournalEntry> {
+        const timestamp = Date.now();
+        const recorded: PruneJournalEntry = {
+            ...entry,
+            id: `${timestamp.toString(36)}-${Math.random().toString(36).substring(2, 8)}`,
+            timestamp
+        };
+        await this.state.update(PruneJournal.storageKey, [...this.readAll(), recorded]);
+        return recorded;
+    }
+
+    /**
+     * Remove an entry, e.g. after the branch has been restored
+     */
+    public async remove(id: string): Promise<void> {
+        await this.state.update(PruneJournal.storageKey, this.readAll().filter(entry => entry.id !== id));
+    }
+
+    /**
+     * Drop entries older than the retention period, returning how many were removed
+     */
+    public async expire(retentionDays: number): Promise<number> {
+        const all = this.readAll();
+        const kept = this.getEntries(retentionDays);
+        if (kept.length !== all.length) {
+            await this.state.update(PruneJournal.storageKey, kept);
+        }
+        return all.length - kept.length;
+    }
+
+    private readAll(): PruneJournalEntry[] {
+        return this.state.get<PruneJournalEntry[]>(PruneJournal.storageKey, []);
+    }
+}
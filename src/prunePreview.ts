@@ -0,0 +1,205 @@
+import * as vscode from 'vscode';
+import { SkippedBranch, StaleBranch } from './types';
+import { describeMergeStatus, isBranchSafeToDelete } from './mergeStatus';
+import { describePullRequest } from './pullRequests';
+import { describeUpstream } from './upstream';
+import { createNonce, escapeHtml } from './webviewHtml';
+
+/**
+ * How the prune preview is shown and what it reports back
+ */
+export interface PrunePreviewOptions {
+    /** Label of the confirm button, e.g. "Delete" or "Archive" */
+    action: string;
+    /** Protected branches left out of the run, listed for reference */
+    skippedBranches?: (SkippedBranch & { repositoryName: string })[];
+    /** List the branches without letting the user change the selection */
+    readOnly?: boolean;
+    /** Closes the preview as if it was cancelled */
+    token?: vscode.CancellationToken;
+    /** Open the diff of a branch against its merge base */
+    openDiff(branch: StaleBranch): void;
+}
+
+/**
+ * Messages posted by the preview's script, referring to branches by index
+ */
+type PreviewMessage =
+    | { type: 'confirm'; selected: number[] }
+    | { type: 'cancel' }
+    | { type: 'openDiff'; index: number };
+
+/**
+ * How many commits not on the default branch are listed per branch
+ */
+const maxListedCommits = 50;
+
+/**
+ * Show the branches a prune run would remove in an editor tab, with the
+ * commits each one would take along. Resolves with the branches left ticked
+ * when the user confirms, or undefined when the preview is cancelled or closed.
+ */
+export function showPrunePreview(branches: StaleBranch[], options: PrunePreviewOptions): Promise<StaleBranch[] | undefined> {
+    const panel = vscode.window.createWebviewPanel(
+        'gitBranchPruner.prunePreview',
+        `${options.action} ${branches.length} Stale Branch(es)`,
+        vscode.ViewColumn.Active,
+        { enableScripts: true }
+    );
+    panel.webview.html = renderPreview(branches, options, createNonce());
+
+    return new Promise(resolve => {
+        const disposables: vscode.Disposable[] = [];
+        const finish = (selected: StaleBranch[] | undefined) => {
+            // Stop listening first so disposing the panel does not finish again
+            disposables.forEach(d => d.dispose());
+            panel.dispose();
+            resolve(selected);
+        };
+
+        disposables.push(panel.webview.onDidReceiveMessage((message: PreviewMessage) => {
+            switch (message.type) {
+                case 'confirm':
+                    finish(options.readOnly ? branches : message.selected.map(index => branches[index]).filter(b => b));
+                    break;
+                case 'cancel':
+                    finish(undefined);
+                    break;
+                case 'openDiff': {
+                    const branch = branches[message.index];
+                    if (branch) {
+                        options.openDiff(branch);
+                    }
+                    break;
+                }
+            }
+        }));
+        disposables.push(panel.onDidDispose(() => finish(undefined)));
+        if (options.token) {
+            disposables.push(options.token.onCancellationRequested(() => finish(undefined)));
+        }
+    });
+}
+
+/**
+ * Describe what deleting a branch would throw away
+ */
+function renderCommits(branch: StaleBranch): string {
+    switch (branch.mergeStatus) {
+        case 'merged':
+            return '<p class="muted">Every commit is on the default branch.</p>';
+        case 'squashMerged':
+            return '<p class="muted">The changes landed on the default branch as a squash or rebase merge.</p>';
+        case 'unknown':
+            return '<p class="muted">No default branch was found to compare against.</p>';
+    }
+
+    const commits = branch.uniqueCommits.slice(0, maxListedCommits)
+        .map(c => `<li><code>${escapeHtml(c.sha.substring(0, 8))}</code> ${escapeHtml(c.subject)}</li>`);
+    if (branch.uniqueCommits.length > maxListedCommits) {
+        commits.push(`<li class="muted">...and ${branch.uniqueCommits.length - maxListedCommits} more</li>`);
+    }
+    return `<details open><summary>${branch.uniqueCommits.length} commit(s) not on the default branch</summary><ul>${commits.join('')}</ul></details>`;
+}
+
+/**
+ * Render one branch with a checkbox, its last commit and the work it holds
+ */
+function renderBranch(branch: StaleBranch, index: number, readOnly: boolean): string {
+    const safe = isBranchSafeToDelete(branch);
+    const checkbox = readOnly ? '' : `<input type="checkbox" data-index="${index}" checked> `;
+    const lastCommit = branch.lastCommit;
+    const date = new Date(lastCommit.time).toISOString().substring(0, 10);
+    const subject = lastCommit.subject ? ` ${escapeHtml(lastCommit.subject)}` : '';
+    const details = [
+        branch.upstream ? `Tracked ${escapeHtml(describeUpstream(branch.upstream))}` : 'No upstream',
+        ...branch.matchedRules.map(m => escapeHtml(m.reason))
+    ];
+    const pullRequest = branch.pullRequest
+        ? `<p>${escapeHtml(describePullRequest(branch.pullRequest))}: <a href="${escapeHtml(branch.pullRequest.url)}">${escapeHtml(branch.pullRequest.title ?? branch.pullRequest.url)}</a></p>`
+        : '';
+
+    return `<section class="branch">
+        <label>${checkbox}<strong>${escapeHtml(branch.name)}</strong></label>
+        <span class="${safe ? 'badge' : 'badge unsafe'}">${escapeHtml(describeMergeStatus(branch.mergeStatus))}</span>
+        <p class="muted">${details.join(' · ')}</p>
+        <p>Last commit <code>${escapeHtml(lastCommit.sha.substring(0, 8))}</code>${subject} <span class="muted">by ${escapeHtml(lastCommit.author)} on ${date}</span></p>
+        ${pullRequest}
+        ${renderCommits(branch)}
+        <a href="#" data-diff="${index}">Open diff against merge base</a>
+    </section>`;
+}
+
+/**
+ * Build the preview page, grouped by repository
+ */
+function renderPreview(branches: StaleBranch[], options: PrunePreviewOptions, nonce: string): string {
+    const readOnly = options.readOnly ?? false;
+    const repositories = [...new Set(branches.map(b => b.repositoryName))];
+    const sections = repositories.map(repositoryName => {
+        const items = branches
+            .map((branch, index) => ({ branch, index }))
+            .filter(({ branch }) => branch.repositoryName === repositoryName)
+            .map(({ branch, index }) => renderBranch(branch, index, readOnly));
+        return `<h2>${escapeHtml(repositoryName)}</h2>${items.join('')}`;
+    });
+
+    const skipped = options.skippedBranches ?? [];
+    const skippedList = skipped.length > 0
+        ? `<details><summary>Skipped ${skipped.length} protected branch(es)</summary><ul>${skipped.map(b => `<li>${escapeHtml(b.repositoryName)}: ${escapeHtml(b.name)} <span class="muted">(${escapeHtml(b.reason)})</span></li>`).join('')}</ul></details>`
+        : '';
+    const selection = readOnly ? '' : '<button class="secondary" id="all">Select All</button> <button class="secondary" id="none">Select None</button> <span id="count"></span>';
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'nonce-${nonce}'; script-src 'nonce-${nonce}';">
+    <style nonce="${nonce}">
+        body { font-family: var(--vscode-font-family); color: var(--vscode-foreground); padding: 0 20px 20px; }
+        .toolbar { position: sticky; top: 0; padding: 12px 0; background: var(--vscode-editor-background); border-bottom: 1px solid var(--vscode-panel-border); }
+        .branch { padding: 8px 0; border-bottom: 1px solid var(--vscode-panel-border); }
+        .branch p { margin: 4px 0; }
+        .muted { color: var(--vscode-descriptionForeground); }
+        .badge { margin-left: 8px; padding: 1px 6px; border-radius: 4px; background: var(--vscode-badge-background); color: var(--vscode-badge-foreground); }
+        .badge.unsafe { background: var(--vscode-inputValidation-warningBackground); color: var(--vscode-foreground); }
+        code { font-family: var(--vscode-editor-font-family); }
+        ul { margin: 4px 0; }
+        button { padding: 4px 12px; border: none; color: var(--vscode-button-foreground); background: var(--vscode-button-background); cursor: pointer; }
+        button.secondary { color: var(--vscode-button-secondaryForeground); background: var(--vscode-button-secondaryBackground); }
+    </style>
+</head>
+<body>
+    <div class="toolbar">
+        <button id="confirm">${escapeHtml(options.action)}</button>
+        <button class="secondary" id="cancel">Cancel</button>
+        ${selection}
+    </div>
+    ${sections.join('')}
+    ${skippedList}
+    <script nonce="${nonce}">
+        const vscode = acquireVsCodeApi();
+        const boxes = [...document.querySelectorAll('input[type=checkbox]')];
+        const count = document.getElementById('count');
+        const update = () => {
+            if (count) {
+                count.textContent = boxes.filter(b => b.checked).length + ' of ' + boxes.length + ' selected';
+            }
+        };
+        const selectAll = checked => { boxes.forEach(b => { b.checked = checked; }); update(); };
+        boxes.forEach(b => b.addEventListener('change', update));
+        document.getElementById('all')?.addEventListener('click', () => selectAll(true));
+        document.getElementById('none')?.addEventListener('click', () => selectAll(false));
+        document.getElementById('confirm').addEventListener('click', () => {
+            vscode.postMessage({ type: 'confirm', selected: boxes.filter(b => b.checked).map(b => Number(b.dataset.index)) });
+        });
+        document.getElementById('cancel').addEventListener('click', () => vscode.postMessage({ type: 'cancel' }));
+        document.querySelectorAll('a[data-diff]').forEach(link => link.addEventListener('click', event => {
+            event.preventDefault();
+            vscode.postMessage({ type: 'openDiff', index: Number(link.dataset.diff) });
+        }));
+        update();
+    </script>
+</body>
+</html>`;
+}
@@ -0,0 +1,735 @@
+import * as path from 'path';
+import { SimpleGit } from 'simple-git';
+import { BlockedBranch, BranchStats, DeletedBranch, FailedHook, PruneResult, PruneRunResult, RepositoryScan, SkippedBranch, StaleBranch } from './types';
+import { classifyGitError, createGit, describeGitFailure } from './git';
+import { FetchPolicy, getSkipFetchReason } from './fetchPolicy';
+import { snapshotBranch } from './branchSnapshot';
+import { checkBranchSafety, listStashes } from './branchSafety';
+import { ArchivedBranch, archiveBranch, ArchiveSettings, ArchiveTarget, defaultArchiveSettings, getBundleDirectory, listArchivedBranches, removeExpiredArchives, restoreArchivedBranch, writeArchiveBundle } from './archive';
+import { BranchProtectionRules, getProtectionReason, getRemoteDefaultBranches, getWorktreeBranches, listWorktrees, ProtectedPattern } from './protectedBranches';
+import { describeUpstream, listLocalBranches } from './upstream';
+import { describeTrackingRef, findRenamedUpstream, getClaimedRefs, getMissingUpstreamReason, getUpstreamHistoryPath, isSameUpstreamHistory, listRemoteTrackingRefs, loadUpstreamHistory, RenamedUpstream, saveUpstreamHistory, updateUpstreamHistory } from './upstreamHistory';
+import { evaluateStaleRules, getLastCheckoutTimes, getLastRefUpdateTime, listMergedBranches, StaleRuleId, StaleRulesConfig } from './staleRules';
+import { loadRepositoryConfig, RepositoryConfig, repositoryConfigFileName } from './repositoryConfig';
+import { LogFunction } from './logger';
+import { AuditEntry, AuditLog, getAuditUser } from './auditLog';
+import { getConfiguredHooks, getVetoReason, HookApproval, PruneHookName, PruneHookResult, resolveHook, runPruneHook } from './pruneHooks';
+import { deleteRemoteBranch, isOwnedBranch, listMergedRemoteBranches, RemoteBranch, RemoteOwnership, RemotePruneResult, RemoteScan } from './remoteBranches';
+import { AheadBehind, BranchClassification, classifyBranch, describeMergeStatus, getAheadBehind, getDefaultBranch, getMergeBaseDiff, isBranchSafeToDelete } from './mergeStatus';
+import { createPullRequestProvider, defaultPullRequestSettings, describePullRequest, detectProvider, HostedRepository, parseRemoteUrl, PullRequestProvider, PullRequestSettings } from './pullRequests';
+
+/**
+ * Settings that control how repositories are scanned and pruned
+ */
+export interface PrunerSettings {
+    staleRules: StaleRulesConfig;
+    /** Protected branch patterns, replaced by a repository's config file when it lists its own */
+    protectedBranches: string[];
+    fetchPolicy: FetchPolicy;
+    fetchMaxAgeMinutes: number;
+    /** Kill git processes that produce no output for this long; 0 disables the timeout */
+    gitTimeoutSeconds: number;
+    archive: ArchiveSettings;
+    pullRequests: PullRequestSettings;
+    /** JSON Lines file every deletion is appended to; nothing is recorded when unset */
+    auditLogPath?: string;
+}
+
+/**
+ * The defaults of the extension settings
+ */
+export const defaultPrunerSettings: PrunerSettings = {
+    staleRules: {
+        rules: ['upstreamGone'],
+        combination: 'or',
+        inactiveDays: 90,
+        noCheckoutDays: 90
+    },
+    protectedBranches: ['main', 'master'],
+    fetchPolicy: 'always',
+    fetchMaxAgeMinutes: 30,
+    gitTimeoutSeconds: 60,
+    archive: defaultArchiveSettings,
+    pullRequests: defaultPullRequestSettings
+};
+
+/**
+ * Options for scanning a single repository
+ */
+export interface ScanOptions {
+    /** Kill running git processes when aborted */
+    signal?: AbortSignal;
+    /** Use the remote-tracking refs on disk regardless of the fetch policy */
+    skipFetch?: boolean;
+    /** Flag branches with these rules instead of the configured ones */
+    rules?: StaleRuleId[];
+}
+
+/**
+ * Options for deleting branches
+ */
+export interface DeleteOptions {
+    /** Stop before the next branch when aborted */
+    signal?: AbortSignal;
+    /** Called before each branch is deleted */
+    onProgress?: (branch: StaleBranch, index: number) => void;
+    /** Keep each branch in a tag, archive ref or bundle before deleting it */
+    archive?: ArchiveTarget;
+}
+
+/**
+ * Options for deleting remote branches
+ */
+export interface RemoteDeleteOptions {
+    /** Stop before the next branch when aborted */
+    signal?: AbortSignal;
+    /** Called before each branch is deleted */
+    onProgress?: (branch: RemoteBranch, index: number) => void;
+}
+
+/**
+ * Options for a prune run
+ */
+export interface PruneOptions extends DeleteOptions {
+    /** Report what would be deleted without deleting anything */
+    dryRun?: boolean;
+    /** Also delete branches with commits that are not on the default branch */
+    force?: boolean;
+    /** Absolute paths of files with unsaved changes, checked against worktrees */
+    unsavedFiles?: string[];
+    /** Also leave branches alone when the safety check only warns, e.g. for a stash */
+    blockOnWarnings?: boolean;
+    /** Don't run the hooks of the repository config file and prune as if there were none */
+    skipHooks?: boolean;
+    /**
+     * Approves running the hooks of a repository config file. Without approval
+     * the hooks don't run and the repository's branches are kept.
+     */
+    approveHooks?: HookApproval;
+}
+
+/**
+ * Finds and deletes stale branches. Has no dependency on VS Code so the
+ * extension, the CLI and the tests all run the same rules.
+ */
+export class BranchPruner {
+    constructor(
+        private readonly settings: PrunerSettings,
+        private readonly log: LogFunction = () => undefined
+    ) {}
+
+    /**
+     * Scan a repository for stale branches. Git failures are returned on the
+     * scan instead of being thrown.
+     */
+    public async scanRepository(repositoryPath: string, options: ScanOptions = {}): Promise<RepositoryScan> {
+        const staleBranches: StaleBranch[] = [];
+        const skippedBranches: SkippedBranch[] = [];
+        const repositoryName = path.basename(repositoryPath);
+        const rulesConfig = options.rules ? { ...this.settings.staleRules, rules: options.rules } : this.settings.staleRules;
+        let fetched = false;
+        let branchStats: BranchStats | undefined;
+        const renamedUpstreams: RenamedUpstream[] = [];
+        
+        try {
+            const git = this.createGit(repositoryPath, options.signal);
+            
+            // Fetch every configured remote so gone upstreams are detected on all of them,
+            // unless the fetch policy says the remote-tracking refs are recent enough
+            const skipFetchReason = options.skipFetch ? 'local rescan' : await getSkipFetchReason(
+                git,
+                repositoryPath,
+                this.settings.fetchPolicy,
+                this.settings.fetchMaxAgeMinutes
+            );
+            if (skipFetchReason) {
+                this.log(`Skipping fetch for ${repositoryName}: ${skipFetchReason}`, 'debug');
+            } else {
+                await git.fetch(['--all', '--prune']);
+                fetched = true;
+            }
+            
+            // Get all local branches with their configured upstreams
+            const localBranches = await git.branchLocal();
+            const branchInfos = await listLocalBranches(git);
+            branchStats = {
+                localBranches: branchInfos.length,
+                withoutUpstream: branchInfos.filter(b => !b.upstream).length,
+                oldestCommitTime: branchInfos.length > 0 ? Math.min(...branchInfos.map(b => b.lastCommitTime)) : undefined
+            };
+            
+            // Protected branches are reported with the reason instead of being pruned
+            const protectionRules = await this.getProtectionRules(git, repositoryPath, localBranches.current);
+            const defaultBranch = await getDefaultBranch(git, protectionRules.remoteDefaultBranches);
+            
+            // Only gather the facts that the enabled rules need
+            const mergedBranches = rulesConfig.rules.includes('merged') && defaultBranch
+                ? await listMergedBranches(git, defaultBranch)
+                : new Set<string>();
+            const checkoutTimes = rulesConfig.rules.includes('noRecentCheckout')
+                ? await getLastCheckoutTimes(git)
+                : new Map<string, number>();
+            
+            // Upstream tips seen by earlier scans tell a renamed remote branch apart from a deleted one
+            const remoteRefs = await listRemoteTrackingRefs(git);
+            const historyPath = await getUpstreamHistoryPath(git, repositoryPath);
+            const recordedTips = loadUpstreamHistory(historyPath);
+            const tips = new Map(recordedTips.map(tip => [tip.branch, tip]));
+            const claimedRefs = getClaimedRefs(branchInfos, protectionRules.remoteDefaultBranches);
+            
+            for (const branch of branchInfos) {
+                let upstreamGoneReason: string | undefined;
+                const tip = tips.get(branch.name);
+                if (branch.upstream) {
+                    this.log(`Checking branch: ${branch.name}, upstream: ${describeUpstream(branch.upstream)}, gone: ${branch.upstream.gone}`, 'trace');
+                    if (branch.upstream.gone) {
+                        // Only trust the recorded tip if it was taken from the same upstream
+                        const renamed = tip && tip.trackingRef === branch.upstream.trackingRef ? findRenamedUpstream(tip, remoteRefs, claimedRefs) : undefined;
+                        if (renamed) {
+                            renamedUpstreams.push(renamed);
+                        } else {
+                            upstreamGoneReason = `${describeUpstream(branch.upstream)} (${branch.upstream.goneReason})`;
+                        }
+                    }
+                } else {
+                    this.log(`Checking branch: ${branch.name}, no upstream configured`, 'trace');
+                    const renamed = tip && findRenamedUpstream(tip, remoteRefs, claimedRefs);
+                    if (renamed) {
+                        renamedUpstreams.push(renamed);
+                    } else if (rulesConfig.rules.includes('upstreamGone')) {
+                        upstreamGoneReason = await getMissingUpstreamReason(git, branch.name, tip, remoteRefs);
+                    }
+                }
+                
+                const lastCheckoutTime = checkoutTimes.get(branch.name);
+                const matchedRules = evaluateStaleRules({
+                    upstreamGoneReason,
+                    lastCommitTime: branch.lastCommitTime,
+                    mergedIntoDefault: mergedBranches.has(branch.name),
+                    lastCheckoutTime,
+                    lastRefUpdateTime: rulesConfig.rules.includes('noRecentCheckout') && lastCheckoutTime === undefined
+                        ? await getLastRefUpdateTime(git, branch.name)
+                        : undefined
+                }, rulesConfig);
+                if (!matchedRules) {
+                    continue;
+                }
+                this.log(`  → STALE: ${branch.name} (${matchedRules.map(m => m.reason).join('; ')})`, 'debug');
+                
+                const protectionReason = getProtectionReason(branch.name, protectionRules);
+                if (protectionReason) {
+                    this.log(`  Skipping protected branch ${branch.name}: ${protectionReason}`, 'debug');
+                    skippedBranches.push({ name: branch.name, reason: protectionReason });
+                    continue;
+                }
+                
+                // Classify each stale branch against the default branch so safe
+                // deletes can tell merged work apart from local-only commits
+                let classification: BranchClassification = { mergeStatus: 'unknown', uniqueCommits: [] };
+                let aheadBehind: AheadBehind | undefined;
+                try {
+                    classification = await classifyBranch(git, branch.name, defaultBranch, {
+                        log: this.log,
+                        timeoutMs: this.settings.gitTimeoutSeconds * 1000,
+                        signal: options.signal
+                    });
+                    aheadBehind = defaultBranch ? await getAheadBehind(git, branch.name, defaultBranch) : undefined;
+                } catch (error) {
+                    this.log(`  Could not classify ${branch.name} against ${defaultBranch}: ${error}`, 'warn');
+                }
+                this.log(`  ${branch.name}: ${describeMergeStatus(classification.mergeStatus)}`, 'debug');
+                staleBranches.push({
+                    name: branch.name,
+                    repositoryPath,
+                    repositoryName,
+                    upstream: branch.upstream,
+                    matchedRules,
+                    ...classification,
+                    lastCommit: { sha: branch.sha, author: branch.lastCommitAuthor, time: branch.lastCommitTime, subject: branch.lastCommitSubject },
+                    aheadBehind
+                });
+            }
+            
+            await this.annotatePullRequests(git, staleBranches);
+            for (const renamed of renamedUpstreams) {
+                this.log(`Upstream of ${repositoryName}/${renamed.branch} was renamed: ${describeTrackingRef(renamed.from)} is now ${describeTrackingRef(renamed.to)}`);
+            }
+            const updatedTips = updateUpstreamHistory(recordedTips, branchInfos, remoteRefs);
+            if (!isSameUpstreamHistory(recordedTips, updatedTips)) {
+                try {
+                    saveUpstreamHistory(historyPath, updatedTips);
+                } catch (error) {
+                    this.log(`Could not record upstream tips of ${repositoryName}: ${error}`, 'warn');
+                }
+            }
+        } catch (error) {
+            const failure = classifyGitError(error);
+            this.log(`Error processing repository ${repositoryName} (${describeGitFailure(failure)}): ${failure.message}`, 'error');
+            return { repositoryPath, repositoryName, staleBranches: [], skippedBranches: [], scannedAt: Date.now(), fetched, error: failure };
+        }
+        
+        return { repositoryPath, repositoryName, staleBranches, skippedBranches, scannedAt: Date.now(), fetched, branchStats, renamedUpstreams };
+    }
+
+    /**
+     * Force delete branches, snapshotting each one first so it can be restored.
+     * A failed deletion is reported and does not stop the remaining ones.
+     */
+    public async deleteBranches(branches: StaleBranch[], options: DeleteOptions = {}): Promise<PruneResult> {
+        const result: PruneResult = { deleted: [], failed: [] };
+        const bundles = options.archive === 'bundle' ? await this.writeBundles(branches) : new Map<string, string | Error>();
+        for (let i = 0; i < branches.length; i++) {
+            if (options.signal?.aborted) {
+                break;
+            }
+            
+            const branch = branches[i];
+            options.onProgress?.(branch, i);
+            try {
+                const git = this.createGit(branch.repositoryPath);
+                const snapshot = await snapshotBranch(git, branch.name);
+                let archivedAs: string | undefined;
+                if (options.archive === 'bundle') {
+                    const bundle = bundles.get(branch.repositoryPath);
+                    if (bundle instanceof Error) {
+                        throw bundle;
+                    }
+                    archivedAs = bundle;
+                } else if (options.archive) {
+                    archivedAs = await archiveBranch(git, branch.name, options.archive, this.settings.archive.namespace);
+                }
+                await git.deleteLocalBranch(branch.name, true); // Force delete
+                this.log(`Deleted branch: ${branch.repositoryName}/${branch.name} (was ${snapshot.sha}${archivedAs ? `, archived in ${archivedAs}` : ''})`);
+                result.deleted.push({ ...branch, snapshot, archivedAs });
+                await this.audit({ action: archivedAs ? 'archive' : 'delete', repositoryPath: branch.repositoryPath, branch: branch.name, sha: snapshot.sha, outcome: 'succeeded', detail: archivedAs });
+            } catch (error) {
+                this.log(`Failed to delete ${branch.repositoryName}/${branch.name}: ${error}`, 'error');
+                const message = error instanceof Error ? error.message : String(error);
+                result.failed.push({ branch, error: message });
+                await this.audit({ action: options.archive ? 'archive' : 'delete', repositoryPath: branch.repositoryPath, branch: branch.name, sha: branch.lastCommit.sha, outcome: 'failed', detail: message });
+            }
+        }
+        return result;
+    }
+
+    /**
+     * Write one bundle per repository holding all of its branches. A failure
+     * is returned in place of the path so those branches are kept.
+     */
+    private async writeBundles(branches: StaleBranch[]): Promise<Map<string, string | Error>> {
+        const bundles = new Map<string, string | Error>();
+        for (const repositoryPath of new Set(branches.map(b => b.repositoryPath))) {
+            try {
+                const git = this.createGit(repositoryPath);
+                const directory = await getBundleDirectory(git, repositoryPath, this.settings.archive);
+                const names = branches.filter(b => b.repositoryPath === repositoryPath).map(b => b.name);
+                bundles.set(repositoryPath, await writeArchiveBundle(git, directory, names));
+            } catch (error) {
+                this.log(`Could not write archive bundle for ${path.basename(repositoryPath)}: ${error}`, 'error');
+                bundles.set(repositoryPath, error instanceof Error ? error : new Error(String(error)));
+            }
+        }
+        return bundles;
+    }
+
+    /**
+     * List the branches archived in a repository, newest first
+     */
+    public async listArchives(repositoryPath: string): Promise<ArchivedBranch[]> {
+        return listArchivedBranches(this.createGit(repositoryPath), repositoryPath, this.settings.archive);
+    }
+
+    /**
+     * Recreate an archived branch, under a new name if the original is taken
+     */
+    public async restoreArchive(repositoryPath: string, archived: ArchivedBranch, branchName?: string): Promise<void> {
+        await restoreArchivedBranch(this.createGit(repositoryPath), archived, branchName);
+        this.log(`Restored archived branch ${archived.branch} in ${path.basename(repositoryPath)} from ${archived.bundlePath ?? archived.ref}`);
+    }
+
+    /**
+     * Remove archives older than the retention period, returning what was removed
+     */
+    public async removeExpiredArchives(repositoryPath: string, now: number = Date.now()): Promise<ArchivedBranch[]> {
+        const removed = await removeExpiredArchives(this.createGit(repositoryPath), repositoryPath, this.settings.archive, now);
+        for (const archived of removed) {
+            this.log(`Removed expired archive of ${archived.branch} in ${path.basename(repositoryPath)}: ${archived.bundlePath ?? archived.ref}`);
+            await this.audit({ action: 'removeArchive', repositoryPath, branch: archived.branch, sha: archived.sha, outcome: 'succeeded', detail: archived.bundlePath ?? archived.ref });
+        }
+        return removed;
+    }
+
+    /**
+     * Find branches on the remotes that are fully merged into the default
+     * branch and owned by the user. With no author emails and no patterns,
+     * branches authored by the repository's `user.email` are owned.
+     * Protected branches are never returned.
+     */
+    public async scanRemoteBranches(repositoryPath: string, ownership: RemoteOwnership, options: ScanOptions = {}): Promise<RemoteScan> {
+        const repositoryName = path.basename(repositoryPath);
+        const skippedBranches: RemoteScan['skippedBranches'] = [];
+        try {
+            const git = this.createGit(repositoryPath, options.signal);
+            const skipFetchReason = options.skipFetch ? 'local rescan' : await getSkipFetchReason(
+                git,
+                repositoryPath,
+                this.settings.fetchPolicy,
+                this.settings.fetchMaxAgeMinutes
+            );
+            if (skipFetchReason) {
+                this.log(`Skipping fetch for ${repositoryName}: ${skipFetchReason}`, 'debug');
+            } else {
+                await git.fetch(['--all', '--prune']);
+            }
+            
+            if (ownership.authorEmails.length === 0 && ownership.branchPatterns.length === 0) {
+                const email = (await git.raw(['config', 'user.email'])).trim();
+                ownership = { ...ownership, authorEmails: email ? [email] : [] };
+            }
+            
+            // Local checkouts don't protect remote branches; names, patterns and remote defaults do
+            const protectionRules = {
+                ...await this.getProtectionRules(git, repositoryPath, ''),
+                worktreeBranches: new Map<string, string>()
+            };
+            const defaultBranch = await getDefaultBranch(git, protectionRules.remoteDefaultBranches);
+            if (!defaultBranch) {
+                throw new Error('no default branch found to compare remote branches against');
+            }
+            
+            const branches: RemoteBranch[] = [];
+            for (const branch of await listMergedRemoteBranches(git, defaultBranch, { repositoryPath, repositoryName })) {
+                const protectionReason = getProtectionReason(branch.name, protectionRules);
+                if (protectionReason) {
+                    skippedBranches.push({ remote: branch.remote, name: branch.name, reason: protectionReason });
+                } else if (!isOwnedBranch(branch, ownership)) {
+                    skippedBranches.push({ remote: branch.remote, name: branch.name, reason: `not owned (author ${branch.authorEmail})` });
+                } else {
+                    this.log(`  → MERGED REMOTE: ${branch.remote}/${branch.name} (${branch.authorEmail})`, 'debug');
+                    branches.push(branch);
+                }
+            }
+            return { repositoryPath, repositoryName, branches, skippedBranches };
+        } catch (error) {
+            const failure = classifyGitError(error);
+            this.log(`Error scanning remote branches of ${repositoryName} (${describeGitFailure(failure)}): ${failure.message}`, 'error');
+            return { repositoryPath, repositoryName, branches: [], skippedBranches, error: failure };
+        }
+    }
+
+    /**
+     * Delete branches on their remotes. A branch that moved since it was
+     * scanned is not deleted. Failures are reported per branch.
+     */
+    public async deleteRemoteBranches(branches: RemoteBranch[], options: RemoteDeleteOptions = {}): Promise<RemotePruneResult> {
+        const result: RemotePruneResult = { deleted: [], failed: [] };
+        for (let i = 0; i < branches.length; i++) {
+            if (options.signal?.aborted) {
+                break;
+            }
+            
+            const branch = branches[i];
+            options.onProgress?.(branch, i);
+            try {
+                await deleteRemoteBranch(this.createGit(branch.repositoryPath), branch);
+                this.log(`Deleted remote branch: ${branch.repositoryName} ${branch.remote}/${branch.name} (was ${branch.sha})`);
+                result.deleted.push(branch);
+                await this.audit({ action: 'deleteRemote', repositoryPath: branch.repositoryPath, branch: `${branch.remote}/${branch.name}`, sha: branch.sha, outcome: 'succeeded' });
+            } catch (error) {
+                this.log(`Failed to delete remote branch ${branch.repositoryName} ${branch.remote}/${branch.name}: ${error}`, 'error');
+                const message = error instanceof Error ? error.message : String(error);
+                result.failed.push({ branch, error: message });
+                await this.audit({ action: 'deleteRemote', repositoryPath: branch.repositoryPath, branch: `${branch.remote}/${branch.name}`, sha: branch.sha, outcome: 'failed', detail: message });
+            }
+        }
+        return result;
+    }
+
+    /**
+     * Look for linked worktrees, stashes and unsaved work that deleting each
+     * branch would disturb. Returns only the branches where something was found.
+     */
+    public async findHazards(branches: StaleBranch[], unsavedFiles: string[] = []): Promise<BlockedBranch[]> {
+        const found: BlockedBranch[] = [];
+        const repositoryPaths = [...new Set(branches.map(b => b.repositoryPath))];
+        for (const repositoryPath of repositoryPaths) {
+            const repositoryBranches = branches.filter(b => b.repositoryPath === repositoryPath);
+            try {
+                const git = this.createGit(repositoryPath);
+                const worktrees = await listWorktrees(git);
+                const stashes = await listStashes(git);
+                for (const branch of repositoryBranches) {
+                    const hazards = await checkBranchSafety(git, branch.name, worktrees, stashes, unsavedFiles);
+                    if (hazards.length > 0) {
+                        found.push({ branch, hazards });
+                    }
+                }
+            } catch (error) {
+                this.log(`Safety check failed for ${path.basename(repositoryPath)}: ${error}`, 'warn');
+                const message = `could not check for worktrees and stashes: ${error instanceof Error ? error.message : error}`;
+                found.push(...repositoryBranches.map(branch => ({ branch, hazards: [{ kind: 'checkFailed' as const, blocking: true, message }] })));
+            }
+        }
+        return found;
+    }
+
+    /**
+     * Diff of a branch against its merge base with the default branch, i.e.
+     * the changes that would be lost if none of them landed elsewhere
+     */
+    public async diffBranch(branch: StaleBranch): Promise<string> {
+        const git = this.createGit(branch.repositoryPath);
+        const defaultBranch = await getDefaultBranch(git, await getRemoteDefaultBranches(git));
+        if (!defaultBranch) {
+            throw new Error(`no default branch found to compare ${branch.name} against`);
+        }
+        return getMergeBaseDiff(git, branch.name, defaultBranch);
+    }
+
+    /**
+     * Delete stale branches, leaving branches with unmerged commits alone
+     * unless forced, and branches that fail the safety check or are vetoed by
+     * the repository's beforePrune hook alone always. Dry runs never run hooks.
+     */
+    public async prune(branches: StaleBranch[], options: PruneOptions = {}): Promise<PruneRunResult> {
+        const candidates = options.force ? branches : branches.filter(b => isBranchSafeToDelete(b));
+        const skippedUnmerged = branches.filter(b => !candidates.includes(b));
+        for (const branch of skippedUnmerged) {
+            this.log(`Skipped unmerged branch: ${branch.repositoryName}/${branch.name}`);
+        }
+        
+        const blocked = (await this.findHazards(candidates, options.unsavedFiles))
+            .filter(found => options.blockOnWarnings || found.hazards.some(h => h.blocking));
+        for (const { branch, hazards } of blocked) {
+            this.log(`Blocked ${branch.repositoryName}/${branch.name}: ${hazards.map(h => h.message).join('; ')}`);
+        }
+        const safe = candidates.filter(b => !blocked.some(found => found.branch === b));
+        if (options.dryRun) {
+            return { dryRun: true, deleted: [], failed: [], wouldDelete: safe, skippedUnmerged, blocked, hookFailures: [] };
+        }
+        
+        const runHooks = !options.skipHooks;
+        const vetoed = runHooks ? await this.runBeforePruneHooks(safe, options) : [];
+        blocked.push(...vetoed);
+        const toDelete = safe.filter(b => !vetoed.some(found => found.branch === b));
+        const result = await this.deleteBranches(toDelete, options);
+        const hookFailures = runHooks ? await this.runAfterPruneHooks(result.deleted) : [];
+        return { dryRun: false, ...result, wouldDelete: [], skippedUnmerged, blocked, hookFailures };
+    }
+
+    /**
+     * Run the beforePrune hook of each branch's repository, returning the
+     * branches to keep. A hook that fails or times out keeps its branch too, as
+     * does a config file that cannot be read and hooks that were not approved.
+     */
+    private async runBeforePruneHooks(branches: StaleBranch[], options: PruneOptions): Promise<BlockedBranch[]> {
+        const kept: BlockedBranch[] = [];
+        const configs = new Map<string, RepositoryConfig | Error>();
+        const approvals = new Map<string, boolean>();
+        for (const branch of branches) {
+            if (options.signal?.aborted) {
+                break;
+            }
+            const config = this.getHookConfig(configs, branch.repositoryPath);
+            if (config instanceof Error) {
+                kept.push({ branch, hazards: [{ kind: 'hookFailed', blocking: true, message: `could not read the beforePrune hook: ${config.message}` }] });
+                continue;
+            }
+            const configured = getConfiguredHooks(config.hooks);
+            if (configured.length === 0) {
+                continue;
+            }
+            if (!await this.isHookApproved(approvals, branch.repositoryPath, config, options.approveHooks)) {
+                kept.push({ branch, hazards: [{ kind: 'hookNotApproved', blocking: true, message: `kept because the ${configured.join(' and ')} hook(s) of ${repositoryConfigFileName} were not approved to run` }] });
+                continue;
+            }
+            const hook = resolveHook(config.hooks, 'beforePrune');
+            if (!hook) {
+                continue;
+            }
+            const result = await runPruneHook(hook, { hook: 'beforePrune', branch });
+            this.logHookResult('beforePrune', branch, result);
+            if (result.error) {
+                kept.push({ branch, hazards: [{ kind: 'hookFailed', blocking: true, message: `beforePrune hook ${result.error}` }] });
+            } else if (result.exitCode !== 0) {
+                kept.push({ branch, hazards: [{ kind: 'hookVeto', blocking: true, message: `kept by beforePrune hook: ${getVetoReason(result)}` }] });
+            }
+        }
+        return kept;
+    }
+
+    /**
+     * Run the afterPrune hook of each deleted branch's repository, returning
+     * the branches where it failed. Branches of repositories whose hooks were
+     * not approved were kept before, so only approved hooks run here.
+     */
+    private async runAfterPruneHooks(branches: DeletedBranch[]): Promise<FailedHook[]> {
+        const failures: FailedHook[] = [];
+        const configs = new Map<string, RepositoryConfig | Error>();
+        for (const branch of branches) {
+            const config = this.getHookConfig(configs, branch.repositoryPath);
+            const hook = config instanceof Error ? undefined : resolveHook(config.hooks, 'afterPrune');
+            if (!hook) {
+                continue;
+            }
+            const result = await runPruneHook(hook, { hook: 'afterPrune', branch });
+            this.logHookResult('afterPrune', branch, result);
+            if (result.error || result.exitCode !== 0) {
+                failures.push({ branch, hook: 'afterPrune', error: result.error ?? `exited with code ${result.exitCode}` });
+            }
+        }
+        return failures;
+    }
+
+    /**
+     * Load a repository's config file once per run
+     */
+    private getHookConfig(configs: Map<string, RepositoryConfig | Error>, repositoryPath: string): RepositoryConfig | Error {
+        let config = configs.get(repositoryPath);
+        if (!config) {
+            try {
+                config = loadRepositoryConfig(repositoryPath);
+            } catch (error) {
+                config = error instanceof Error ? error : new Error(String(error));
+            }
+            configs.set(repositoryPath, config);
+        }
+        return config;
+    }
+
+    /**
+     * Ask once per run whether a repository's hooks may run
+     */
+    private async isHookApproved(approvals: Map<string, boolean>, repositoryPath: string, config: RepositoryConfig, approveHooks: HookApproval | undefined): Promise<boolean> {
+        let approved = approvals.get(repositoryPath);
+        if (approved === undefined) {
+            approved = approveHooks ? await approveHooks(repositoryPath, config.hooks ?? {}) : false;
+            approvals.set(repositoryPath, approved);
+            if (!approved) {
+                this.log(`Not running the hooks of ${path.basename(repositoryPath)}: they were not approved`, 'warn');
+            }
+        }
+        return approved;
+    }
+
+    /**
+     * Log what a hook printed and how it ended
+     */
+    private logHookResult(name: PruneHookName, branch: StaleBranch, result: PruneHookResult): void {
+        for (const line of `${result.stdout}\n${result.stderr}`.split('\n').filter(l => l.trim())) {
+            this.log(`  [${name}] ${line}`);
+        }
+        this.log(`${name} hook for ${branch.repositoryName}/${branch.name} ${result.error ?? `exited with code ${result.exitCode}`}`, result.error ? 'warn' : 'debug');
+    }
+
+    /**
+     * Build the protection rules for a repository from settings, the repository's
+     * config file, the default branches of its remotes and its linked worktrees
+     */
+    private async getProtectionRules(git: SimpleGit, repositoryPath: string, currentBranch: string): Promise<BranchProtectionRules> {
+        let patterns: ProtectedPattern[] = this.settings.protectedBranches
+            .map(pattern => ({ pattern, source: 'settings' }));
+        
+        try {
+            const repositoryConfig = loadRepositoryConfig(repositoryPath);
+            if (repositoryConfig.protectedBranches) {
+                patterns = repositoryConfig.protectedBranches.map(pattern => ({ pattern, source: repositoryConfigFileName }));
+            }
+        } catch (error) {
+            this.log(`Ignoring config for ${path.basename(repositoryPath)}: ${error}`, 'warn');
+        }
+        
+        let remoteDefaultBranches: BranchProtectionRules['remoteDefaultBranches'] = [];
+        try {
+            remoteDefaultBranches = await getRemoteDefaultBranches(git);
+        } catch (error) {
+            this.log(`Could not read remote default branches: ${error}`, 'warn');
+        }
+        
+        let worktreeBranches: BranchProtectionRules['worktreeBranches'] = new Map();
+        try {
+            worktreeBranches = await getWorktreeBranches(git, repositoryPath);
+        } catch (error) {
+            this.log(`Could not list worktrees: ${error}`, 'warn');
+        }
+        
+        return { currentBranch, remoteDefaultBranches, worktreeBranches, patterns };
+    }
+
+    /**
+     * Look up the pull request of each stale branch on the hosting service of
+     * its remote. Failed lookups are logged and leave the branch unannotated.
+     */
+    private async annotatePullRequests(git: SimpleGit, branches: StaleBranch[]): Promise<void> {
+        if (this.settings.pullRequests.provider === 'off') {
+            return;
+        }
+        const clients = new Map<string, { provider: PullRequestProvider; repository: HostedRepository } | undefined>();
+        for (const branch of branches) {
+            const remote = branch.upstream?.remote ?? 'origin';
+            if (!clients.has(remote)) {
+                clients.set(remote, await this.getPullRequestClient(git, remote));
+            }
+            const client = clients.get(remote);
+            if (!client) {
+                continue;
+            }
+            const remoteBranch = branch.upstream?.mergeRef.replace(/^refs\/heads\//, '') ?? branch.name;
+            try {
+                branch.pullRequest = await client.provider.findPullRequest(client.repository, remoteBranch);
+                this.log(`  ${branch.name}: ${branch.pullRequest ? describePullRequest(branch.pullRequest) : 'no pull request found'}`, 'debug');
+            } catch (error) {
+                this.log(`  Could not look up the pull request of ${branch.name} on ${client.provider.id}: ${error}`, 'warn');
+            }
+        }
+    }
+
+    /**
+     * Create the pull request client for a remote, or undefined when its
+     * hosting service is unknown
+     */
+    private async getPullRequestClient(git: SimpleGit, remote: string): Promise<{ provider: PullRequestProvider; repository: HostedRepository } | undefined> {
+        const settings = this.settings.pullRequests;
+        try {
+            const repository = parseRemoteUrl((await git.raw(['remote', 'get-url', remote])).trim());
+            const id = settings.provider === 'auto' ? repository && detectProvider(repository.host) : settings.provider;
+            if (!repository || !id || id === 'off') {
+                this.log(`No pull request provider for remote ${remote}`, 'debug');
+                return undefined;
+            }
+            return { provider: createPullRequestProvider(id, settings.baseUrl, settings.tokens[id], settings.timeoutMs), repository };
+        } catch (error) {
+            this.log(`Could not read the URL of remote ${remote}: ${error}`, 'warn');
+            return undefined;
+        }
+    }
+
+    /**
+     * Append a destructive action to the audit log, if one is configured. A
+     * log that cannot be written is reported but does not undo the action.
+     */
+    private async audit(entry: Omit<AuditEntry, 'time' | 'user'>): Promise<void> {
+        if (!this.settings.auditLogPath) {
+            return;
+        }
+        try {
+            await new AuditLog(this.settings.auditLogPath).append([{ time: new Date().toISOString(), user: getAuditUser(), ...entry }]);
+        } catch (error) {
+            this.log(`Could not write the audit log ${this.settings.auditLogPath}: ${error}`, 'error');
+        }
+    }
+
+    /**
+     * Make a branch track the ref its old upstream was renamed to
+     */
+    public async repointUpstream(repositoryPath: string, renamed: RenamedUpstream): Promise<void> {
+        const git = this.createGit(repositoryPath);
+        await git.raw(['config', `branch.${renamed.branch}.remote`, renamed.remote]);
+        await git.raw(['config', `branch.${renamed.branch}.merge`, renamed.mergeRef]);
+        this.log(`Upstream of ${path.basename(repositoryPath)}/${renamed.branch} is now ${describeTrackingRef(renamed.to)} (was ${describeTrackingRef(renamed.from)})`);
+    }
+
+    private createGit(repositoryPath: string, signal?: AbortSignal): SimpleGit {
+        return createGit(repositoryPath, { timeoutMs: this.settings.gitTimeoutSeconds * 1000, signal });
+    }
+}
@@ -0,0 +1,280 @@
+import * as http from 'http';
+import * as https from 'https';
+
+/**
+ * Hosting services a pull request can be looked up on
+ */
+export type PullRequestProviderId = 'github' | 'gitlab' | 'bitbucket' | 'azureDevOps';
+
+/**
+ * State of a pull request. `closed` means closed without merging.
+ */
+export type PullRequestState = 'open' | 'merged' | 'closed';
+
+/**
+ * The pull request most recently opened from a branch
+ */
+export interface PullRequestInfo {
+    provider: PullRequestProviderId;
+    number: number;
+    state: PullRequestState;
+    url: string;
+    title?: string;
+}
+
+/**
+ * A repository on a hosting service, parsed from a remote URL
+ */
+export interface HostedRepository {
+    host: string;
+    /** Path segments after the host without `.git`, e.g. ["owner", "repo"] */
+    path: string[];
+}
+
+/**
+ * Looks up the pull request opened from a branch. Implementations exist for
+ * each hosting service; more can be added by implementing this interface.
+ */
+export interface PullRequestProvider {
+    readonly id: PullRequestProviderId;
+    findPullRequest(repository: HostedRepository, branch: string): Promise<PullRequestInfo | undefined>;
+}
+
+/**
+ * How pull requests are looked up
+ */
+export interface PullRequestSettings {
+    /** `off` disables lookups; `auto` picks the provider from the remote's host */
+    provider: 'off' | 'auto' | PullRequestProviderId;
+    /** API base URL for self-hosted servers; empty uses the public service */
+    baseUrl: string;
+    /** Access tokens by provider */
+    tokens: Partial<Record<PullRequestProviderId, string>>;
+    timeoutMs: number;
+}
+
+/**
+ * The defaults of the pull request settings
+ */
+export const defaultPullRequestSettings: PullRequestSettings = {
+    provider: 'off',
+    baseUrl: '',
+    tokens: {},
+    timeoutMs: 10000
+};
+
+/**
+ * Public API base URL of each provider
+ */
+export const defaultProviderBaseUrls: Record<PullRequestProviderId, string> = {
+    github: 'https://api.github.com',
+    gitlab: 'https://gitlab.com/api/v4',
+    bitbucket: 'https://api.bitbucket.org/2.0',
+    azureDevOps: 'https://dev.azure.com'
+};
+
+/**
+ * Parse an HTTPS or SSH remote URL into host and path
+ */
+export function parseRemoteUrl(url: string): HostedRepository | undefined {
+    const match = /^(?:[a-z+]+:\/\/)?(?:[^@/]+@)?([^/:]+)(?::\d+)?[:/](.+?)(?:\.git)?\/?$/i.exec(url.trim());
+    if (!match) {
+        return undefined;
+    }
+    return { host: match[1].toLowerCase(), path: match[2].split('/').filter(segment => segment) };
+}
+
+/**
+ * Guess the provider from a remote's host
+ */
+export function detectProvider(host: string): PullRequestProviderId | undefined {
+    if (host === 'github.com' || host.startsWith('github.')) {
+        return 'github';
+    }
+    if (host === 'gitlab.com' || host.startsWith('gitlab.')) {
+        return 'gitlab';
+    }
+    if (host === 'bitbucket.org') {
+        return 'bitbucket';
+    }
+    if (host.endsWith('dev.azure.com') || host.endsWith('visualstudio.com')) {
+        return 'azureDevOps';
+    }
+    return undefined;
+}
+
+/**
+ * Create the client for a provider
+ */
+export function createPullRequestProvider(id: PullRequestProviderId, baseUrl: string = '', token?: string, timeoutMs: number = defaultPullRequestSettings.timeoutMs): PullRequestProvider {
+    const base = (baseUrl || defaultProviderBaseUrls[id]).replace(/\/+$/, '');
+    switch (id) {
+        case 'github':
+            return new GitHubProvider(base, token, timeoutMs);
+        case 'gitlab':
+            return new GitLabProvider(base, token, timeoutMs);
+        case 'bitbucket':
+            return new BitbucketProvider(base, token, timeoutMs);
+        case 'azureDevOps':
+            return new AzureDevOpsProvider(base, token, timeoutMs);
+    }
+}
+
+/**
+ * Describe a pull request for tooltips and confirmations
+ */
+export function describePullRequest(pullRequest: Pick<PullRequestInfo, 'number' | 'state'>): string {
+    const state = pullRequest.state === 'closed' ? 'closed without merging' : pullRequest.state;
+    return `PR #${pullRequest.number} ${state}`;
+}
+
+/**
+ * GET a URL and parse the JSON response, rejecting on HTTP errors and timeouts
+ */
+export function requestJson(url: string, headers: Record<string, string>, timeoutMs: number): Promise<unknown> {
+    return new Promise((resolve, reject) => {
+        const client = url.startsWith('http://') ? http : https;
+        const request = client.get(url, { headers: { 'Accept': 'application/json', 'User-Agent': 'git-branch-pruner', ...headers } }, response => {
+            let body = '';
+            response.setEncoding('utf8');
+            response.on('data', chunk => { body += chunk; });
+            response.on('end', () => {
+                const status = response.statusCode ?? 0;
+                if (status < 200 || status >= 300) {
+                    reject(new Error(`${url} returned HTTP ${status}`));
+                    return;
+                }
+                try {
+                    resolve(JSON.parse(body));
+                } catch (error) {
+                    reject(new Error(`${url} returned invalid JSON: ${error}`));
+                }
+            });
+        });
+        request.setTimeout(timeoutMs, () => request.destroy(new Error(`${url} timed out after ${timeoutMs}ms`)));
+        request.on('error', reject);
+    });
+}
+
+abstract class HttpProvider implements PullRequestProvider {
+    public abstract readonly id: PullRequestProviderId;
+
+    constructor(
+        protected readonly baseUrl: string,
+        protected readonly token: string | undefined,
+        private readonly timeoutMs: number
+    ) {}
+
+    public abstract findPullRequest(repository: HostedRepository, branch: string): Promise<PullRequestInfo | undefined>;
+
+    protected abstract authorization(): Record<string, string>;
+
+    protected get(path: string): Promise<unknown> {
+        return requestJson(`${this.baseUrl}${path}`, this.token ? this.authorization() : {}, this.timeoutMs);
+    }
+}
+
+/**
+ * GitHub and GitHub Enterprise (`https://<host>/api/v3`)
+ */
+class GitHubProvider extends HttpProvider {
+    public readonly id = 'github';
+
+    public async findPullRequest(repository: HostedRepository, branch: string): Promise<PullRequestInfo | undefined> {
+        const [owner, repo] = repository.path.slice(-2);
+        const query = `head=${encodeURIComponent(`${owner}:${branch}`)}&state=all&sort=created&direction=desc&per_page=1`;
+        const pulls = await this.get(`/repos/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}/pulls?${query}`) as {
+            number: number; state: string; merged_at: string | null; html_url: string; title: string;
+        }[];
+        const pull = pulls[0];
+        if (!pull) {
+            return undefined;
+        }
+        const state: PullRequestState = pull.merged_at ? 'merged' : pull.state === 'open' ? 'open' : 'closed';
+        return { provider: this.id, number: pull.number, state, url: pull.html_url, title: pull.title };
+    }
+
+    protected authorization(): Record<string, string> {
+        return { 'Authorization': `Bearer ${this.token}` };
+    }
+}
+
+/**
+ * GitLab.com and self-managed GitLab (`https://<host>/api/v4`)
+ */
+class GitLabProvider extends HttpProvider {
+    public readonly id = 'gitlab';
+
+    public async findPullRequest(repository: HostedRepository, branch: string): Promise<PullRequestInfo | undefined> {
+        const project = encodeURIComponent(repository.path.join('/'));
+        const query = `source_branch=${encodeURIComponent(branch)}&state=all&order_by=created_at&sort=desc&per_page=1`;
+        const requests = await this.get(`/projects/${project}/merge_requests?${query}`) as {
+            iid: number; state: string; web_url: string; title: string;
+        }[];
+        const request = requests[0];
+        if (!request) {
+            return undefined;
+        }
+        const state: PullRequestState = request.state === 'merged' ? 'merged' : request.state === 'opened' ? 'open' : 'closed';
+        return { provider: this.id, number: request.iid, state, url: request.web_url, title: request.title };
+    }
+
+    protected authorization(): Record<string, string> {
+        return { 'PRIVATE-TOKEN': this.token ?? '' };
+    }
+}
+
+/**
+ * Bitbucket Cloud
+ */
+class BitbucketProvider extends HttpProvider {
+    public readonly id = 'bitbucket';
+
+    public async findPullRequest(repository: HostedRepository, branch: string): Promise<PullRequestInfo | undefined> {
+        const [workspace, repo] = repository.path.slice(-2);
+        const filter = encodeURIComponent(`source.branch.name="${branch.replace(/"/g, '\\"')}"`);
+        const states = ['OPEN', 'MERGED', 'DECLINED', 'SUPERSEDED'].map(state => `state=${state}`).join('&');
+        const page = await this.get(`/repositories/${encodeURIComponent(workspace)}/${encodeURIComponent(repo)}/pullrequests?q=${filter}&${states}&sort=-created_on&pagelen=1`) as {
+            values: { id: number; state: string; title: string; links: { html: { href: string } } }[];
+        };
+        const pull = page.values[0];
+        if (!pull) {
+            return undefined;
+        }
+        const state: PullRequestState = pull.state === 'MERGED' ? 'merged' : pull.state === 'OPEN' ? 'open' : 'closed';
+        return { provider: this.id, number: pull.id, state, url: pull.links.html.href, title: pull.title };
+    }
+
+    protected authorization(): Record<string, string> {
+        return { 'Authorization': `Bearer ${this.token}` };
+    }
+}
+
+/**
+ * Azure DevOps Services and Server. Remotes look like
+ * `https://dev.azure.com/<org>/<project>/_git/<repo>` or
+ * `git@ssh.dev.azure.com:v3/<org>/<project>/<repo>`.
+ */
+class AzureDevOpsProvider extends HttpProvider {
+    public readonly id = 'azureDevOps';
+
+    public async findPullRequest(repository: HostedRepository, branch: string): Promise<PullRequestInfo | undefined> {
+        const segments = repository.path.filter(segment => segment !== '_git' && segment !== 'v3');
+        const [organization, project, repo] = segments.slice(-3).map(encodeURIComponent);
+        const query = `searchCriteria.sourceRefName=${encodeURIComponent(`refs/heads/${branch}`)}&searchCriteria.status=all&$top=1&api-version=7.0`;
+        const result = await this.get(`/${organization}/${project}/_apis/git/repositories/${repo}/pullrequests?${query}`) as {
+            value: { pullRequestId: number; status: string; title: string }[];
+        };
+        const pull = result.value[0];
+        if (!pull) {
+            return undefined;
+        }
+        const state: PullRequestState = pull.status === 'completed' ? 'merged' : pull.status === 'active' ? 'open' : 'closed';
+        const url = `${this.baseUrl}/${organization}/${project}/_git/${repo}/pullrequest/${pull.pullRequestId}`;
+        return { provider: this.id, number: pull.pullRequestId, state, url, title: pull.title };
+    }
+
+    protected authorization(): Record<string, string> {
+        return { 'Authorization': `Basic ${Buffer.from(`:${this.token}`).toString('base64')}` };
+    }
+}
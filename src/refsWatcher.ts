@@ -0,0 +1,119 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { createGit, GitOptions } from './git';
+
+/**
+ * Watches `refs/` and `packed-refs` of repositories and reports, debounced,
+ * which repository's refs changed on disk
+ */
+export class RefsWatcher implements vscode.Disposable {
+    private static readonly debounceMs = 2000;
+    /** How long file events may lag behind a change the extension made itself */
+    private static readonly ownChangeSettleMs = 1000;
+
+    private readonly onDidChangeRefsEmitter = new vscode.EventEmitter<string>();
+    public readonly onDidChangeRefs = this.onDidChangeRefsEmitter.event;
+
+    private watchers = new Map<string, vscode.FileSystemWatcher>();
+    private pending = new Set<string>();
+    private timers = new Map<string, NodeJS.Timeout>();
+    private ownChanges = new Map<string, number>();
+    private ignoreUntil = new Map<string, number>();
+
+    constructor(private readonly getGitOptions: (repositoryPath: string) => GitOptions) {}
+
+    /**
+     * Start watching repositories that are not watched yet
+     */
+    public async watch(repositoryPaths: string[]): Promise<void> {
+        for (const repositoryPath of repositoryPaths) {
+            if (this.watchers.has(repositoryPath) || this.pending.has(repositoryPath)) {
+                continue;
+            }
+            // Mark as pending so concurrent calls don't create duplicate watchers
+            this.pending.add(repositoryPath);
+
+            let gitDir: string;
+            try {
+                // Worktrees and submodules keep their refs in the common git directory
+                const commonDir = (await createGit(repositoryPath, this.getGitOptions(repositoryPath)).raw(['rev-parse', '--git-common-dir'])).trim();
+                gitDir = path.resolve(repositoryPath, commonDir);
+            } catch {
+                this.pending.delete(repositoryPath);
+                continue;
+            }
+
+            const watcher = vscode.workspace.createFileSystemWatcher(
+                new vscode.RelativePattern(vscode.Uri.file(gitDir), '{refs/heads/**,refs/remotes/**,packed-refs}')
+            );
+            const onChange = () => this.schedule(repositoryPath);
+            watcher.onDidCreate(onChange);
+            watcher.onDidChange(onChange);
+            watcher.onDidDelete(onChange);
+            this.pending.delete(repositoryPath);
+            this.watchers.set(repositoryPath, watcher);
+        }
+    }
+
+    /**
+     * Stop watching repositories that are not in the given list
+     */
+    public retain(repositoryPaths: string[]): void {
+        const keep = new Set(repositoryPaths);
+        for (const [repositoryPath, watcher] of [...this.watchers]) {
+            if (!keep.has(repositoryPath)) {
+                watcher.dispose();
+                this.watchers.delete(repositoryPath);
+                this.clearTimer(repositoryPath);
+                this.ignoreUntil.delete(repositoryPath);
+            }
+        }
+    }
+
+    /**
+     * Run a task that changes a repository's refs itself, e.g. a fetch, without
+     * reporting the changes it makes
+     */
+    public async ignoreChangesDuring<T>(repositoryPath: string, task: () => Promise<T>): Promise<T> {
+        this.ownChanges.set(repositoryPath, (this.ownChanges.get(repositoryPath) ?? 0) + 1);
+        try {
+            return await task();
+        } finally {
+            const remaining = (this.ownChanges.get(repositoryPath) ?? 1) - 1;
+            if (remaining > 0) {
+                this.ownChanges.set(repositoryPath, remaining);
+            } else {
+                this.ownChanges.delete(repositoryPath);
+                this.ignoreUntil.set(repositoryPath, Date.now() + RefsWatcher.ownChangeSettleMs);
+                this.clearTimer(repositoryPath);
+            }
+        }
+    }
+
+    private schedule(repositoryPath: string): void {
+        if (this.ownChanges.has(repositoryPath) || Date.now() < (this.ignoreUntil.get(repositoryPath) ?? 0)) {
+            return;
+        }
+        this.clearTimer(repositoryPath);
+        this.timers.set(repositoryPath, setTimeout(() => {
+            this.timers.delete(repositoryPath);
+            this.onDidChangeRefsEmitter.fire(repositoryPath);
+        }, RefsWatcher.debounceMs));
+    }
+
+    private clearTimer(repositoryPath: string): void {
+        const existing = this.timers.get(repositoryPath);
+        if (existing) {
+            clearTimeout(existing);
+            this.timers.delete(repositoryPath);
+        }
+    }
+
+    public dispose(): void {
+        this.timers.forEach(timer => clearTimeout(timer));
+        this.timers.clear();
+        this.watchers.forEach(watcher => watcher.dispose());
+        this.watchers.clear();
+        this.onDidChangeRefsEmitter.dispose();
+    }
+}
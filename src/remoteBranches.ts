@@ -0,0 +1,115 @@
+import { SimpleGit } from 'simple-git';
+import { matchesPattern } from './patterns';
+import { GitFailure } from './git';
+
+/**
+ * A branch on a remote, seen through its remote-tracking ref
+ */
+export interface RemoteBranch {
+    remote: string;
+    /** Branch name on the remote, e.g. `jdoe/login-form` */
+    name: string;
+    repositoryPath: string;
+    repositoryName: string;
+    sha: string;
+    authorName: string;
+    authorEmail: string;
+    /** Committer date of the tip, in milliseconds */
+    lastCommitTime: number;
+}
+
+/**
+ * Which remote branches count as ours. A branch is owned when its tip was
+ * authored by one of the emails or its name matches one of the patterns.
+ */
+export interface RemoteOwnership {
+    authorEmails: string[];
+    /** Globs or /regex/ patterns matched against the branch name without the remote */
+    branchPatterns: string[];
+}
+
+/**
+ * Result of looking for merged remote branches in one repository
+ */
+export interface RemoteScan {
+    repositoryPath: string;
+    repositoryName: string;
+    /** Owned branches merged into the default branch */
+    branches: RemoteBranch[];
+    /** Merged branches left out, with the reason */
+    skippedBranches: { remote: string; name: string; reason: string }[];
+    error?: GitFailure;
+}
+
+/**
+ * A remote branch that could not be deleted
+ */
+export interface FailedRemoteDeletion {
+    branch: RemoteBranch;
+    error: string;
+}
+
+/**
+ * Outcome of deleting remote branches
+ */
+export interface RemotePruneResult {
+    deleted: RemoteBranch[];
+    failed: FailedRemoteDeletion[];
+}
+
+/**
+ * Whether a remote branch is owned by the user
+ */
+export function isOwnedBranch(branch: RemoteBranch, ownership: RemoteOwnership): boolean {
+    const email = branch.authorEmail.toLowerCase();
+    return ownership.authorEmails.some(owner => owner.toLowerCase() === email)
+        || ownership.branchPatterns.some(pattern => matchesPattern(branch.name, pattern));
+}
+
+/**
+ * List remote-tracking branches whose tips are reachable from a ref, i.e.
+ * fully merged into it. `<remote>/HEAD` is left out.
+ */
+export async function listMergedRemoteBranches(
+    git: SimpleGit,
+    mergedInto: string,
+    repository: { repositoryPath: string; repositoryName: string }
+): Promise<RemoteBranch[]> {
+    const remotes = (await git.raw(['remote'])).split('\n').map(r => r.trim()).filter(r => r);
+    const output = await git.raw([
+        'for-each-ref',
+        `--merged=${mergedInto}`,
+        '--format=%(refname)%00%(objectname)%00%(authorname)%00%(authoremail)%00%(committerdate:unix)%00%(symref)',
+        'refs/remotes'
+    ]);
+
+    const branches: RemoteBranch[] = [];
+    for (const line of output.split('\n').filter(l => l.includes('\0'))) {
+        const [refName, sha, authorName, authorEmail, committerTime, symref] = line.split('\0');
+        // Remote names may contain slashes, so match the longest configured remote
+        const remote = remotes
+            .filter(r => refName.startsWith(`refs/remotes/${r}/`))
+            .sort((a, b) => b.length - a.length)[0];
+        if (!remote || symref) {
+            continue;
+        }
+        branches.push({
+            remote,
+            name: refName.substring(`refs/remotes/${remote}/`.length),
+            ...repository,
+            sha,
+            authorName,
+            authorEmail: authorEmail.replace(/^<|>$/g, ''),
+            lastCommitTime: parseInt(committerTime, 10) * 1000
+        });
+    }
+    return branches;
+}
+
+/**
+ * Delete a branch on its remote with `git push <remote> --delete`
+ */
+export async function deleteRemoteBranch(git: SimpleGit, branch: RemoteBranch): Promise<void> {
+    // Only delete what was reviewed: the push fails if someone moved the branch since
+    await git.raw(['push', `--force-with-lease=refs/heads/${branch.name}:${branch.sha}`, branch.remote, '--delete', `refs/heads/${branch.name}`]);
+}
@@ -0,0 +1,205 @@
+import { RepositoryScan } from './types';
+import { describeGitFailure } from './git';
+import { describeUpstream } from './upstream';
+import { describeMergeStatus, MergeStatus } from './mergeStatus';
+import { describePullRequest, PullRequestState } from './pullRequests';
+import { StaleRuleId } from './staleRules';
+
+/**
+ * File formats a report can be exported as
+ */
+export type ReportFormat = 'json' | 'markdown' | 'csv';
+
+/**
+ * File extension of each report format
+ */
+export const reportFileExtensions: Record<ReportFormat, string> = {
+    json: 'json',
+    markdown: 'md',
+    csv: 'csv'
+};
+
+/**
+ * One stale branch in a report, flattened so it maps onto a CSV row
+ */
+export interface StaleBranchReportEntry {
+    repository: string;
+    repositoryPath: string;
+    branch: string;
+    /** Short upstream name, e.g. "origin/feature/foo" */
+    upstream?: string;
+    upstreamGone: boolean;
+    lastCommitSha: string;
+    lastCommitAuthor: string;
+    /** ISO 8601 committer date of the tip */
+    lastCommitDate: string;
+    /** Commits not on the default branch, unless no default branch was found */
+    ahead?: number;
+    /** Commits on the default branch that are not on the branch */
+    behind?: number;
+    mergeStatus: MergeStatus;
+    rules: StaleRuleId[];
+    reasons: string[];
+    /** Latest pull request from the branch, when a hosting provider is configured */
+    pullRequest?: number;
+    pullRequestState?: PullRequestState;
+    pullRequestUrl?: string;
+}
+
+/**
+ * Summary of one scanned repository in a report
+ */
+export interface RepositoryReportEntry {
+    repository: string;
+    repositoryPath: string;
+    /** ISO 8601 time of the scan */
+    scannedAt: string;
+    fetched: boolean;
+    staleCount: number;
+    /** Why the scan failed, if it did */
+    error?: string;
+}
+
+/**
+ * A shareable snapshot of stale branches across repositories
+ */
+export interface StaleBranchReport {
+    version: 1;
+    /** ISO 8601 time the report was built */
+    generatedAt: string;
+    repositories: RepositoryReportEntry[];
+    branches: StaleBranchReportEntry[];
+    /** Branches that matched the staleness rules but are protected */
+    skipped: { repository: string; branch: string; reason: string }[];
+}
+
+/**
+ * Build a report from scan results
+ */
+export function buildReport(scans: RepositoryScan[], now: number = Date.now()): StaleBranchReport {
+    return {
+        version: 1,
+        generatedAt: new Date(now).toISOString(),
+        repositories: scans.map(scan => ({
+            repository: scan.repositoryName,
+            repositoryPath: scan.repositoryPath,
+            scannedAt: new Date(scan.scannedAt).toISOString(),
+            fetched: scan.fetched,
+            staleCount: scan.staleBranches.length,
+            error: scan.error ? `${describeGitFailure(scan.error)}: ${scan.error.message}` : undefined
+        })),
+        branches: scans.flatMap(scan => scan.staleBranches.map(branch => ({
+            repository: branch.repositoryName,
+            repositoryPath: branch.repositoryPath,
+            branch: branch.name,
+            upstream: branch.upstream ? describeUpstream(branch.upstream) : undefined,
+            upstreamGone: branch.upstream?.gone ?? false,
+            lastCommitSha: branch.lastCommit.sha,
+            lastCommitAuthor: branch.lastCommit.author,
+            lastCommitDate: new Date(branch.lastCommit.time).toISOString(),
+            ahead: branch.aheadBehind?.ahead,
+            behind: branch.aheadBehind?.behind,
+            mergeStatus: branch.mergeStatus,
+            rules: branch.matchedRules.map(m => m.rule),
+            reasons: branch.matchedRules.map(m => m.reason),
+            pullRequest: branch.pullRequest?.number,
+            pullRequestState: branch.pullRequest?.state,
+            pullRequestUrl: branch.pullRequest?.url
+        }))),
+        skipped: scans.flatMap(scan => scan.skippedBranches.map(branch => ({
+            repository: scan.repositoryName,
+            branch: branch.name,
+            reason: branch.reason
+        })))
+    };
+}
+
+/**
+ * Serialize a report in the given format
+ */
+export function formatReport(report: StaleBranchReport, format: ReportFormat): string {
+    switch (format) {
+        case 'json':
+            return `${JSON.stringify(report, null, 2)}\n`;
+        case 'markdown':
+            return formatMarkdown(report);
+        case 'csv':
+            return formatCsv(report);
+    }
+}
+
+const csvColumns: (keyof StaleBranchReportEntry)[] = [
+    'repository', 'repositoryPath', 'branch', 'upstream', 'upstreamGone',
+    'lastCommitSha', 'lastCommitAuthor', 'lastCommitDate', 'ahead', 'behind',
+    'mergeStatus', 'rules', 'reasons', 'pullRequest', 'pullRequestState', 'pullRequestUrl'
+];
+
+/**
+ * One row per stale branch; list columns are joined with "; "
+ */
+function formatCsv(report: StaleBranchReport): string {
+    const rows = report.branches.map(entry => csvColumns.map(column => {
+        const value = entry[column];
+        return escapeCsv(Array.isArray(value) ? value.join('; ') : value === undefined ? '' : String(value));
+    }).join(','));
+    return [csvColumns.join(','), ...rows].join('\r\n') + '\r\n';
+}
+
+/**
+ * Quote a CSV field when it contains a separator, quote or line break
+ */
+function escapeCsv(value: string): string {
+    return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * A summary table of repositories followed by a table of branches per repository
+ */
+function formatMarkdown(report: StaleBranchReport): string {
+    const lines = [
+        '# Stale Branch Report',
+        '',
+        `Generated ${report.generatedAt}. ${report.branches.length} stale branch(es) in ${report.repositories.length} repository(ies).`,
+        '',
+        '| Repository | Stale | Scanned | Fetched |',
+        '|---|---:|---|---|'
+    ];
+    for (const repository of report.repositories) {
+        const scanned = repository.error ? `failed: ${repository.error}` : repository.scannedAt;
+        lines.push(`| ${escapeCell(repository.repository)} | ${repository.staleCount} | ${escapeCell(scanned)} | ${repository.fetched ? 'yes' : 'no'} |`);
+    }
+
+    for (const repository of report.repositories) {
+        const branches = report.branches.filter(entry => entry.repositoryPath === repository.repositoryPath);
+        if (branches.length === 0) {
+            continue;
+        }
+        lines.push('', `## ${repository.repository}`, '', `\`${repository.repositoryPath}\``, '');
+        lines.push('| Branch | Upstream | Last commit | Ahead / behind | Status | Flagged because |');
+        lines.push('|---|---|---|---|---|---|');
+        for (const entry of branches) {
+            const upstream = entry.upstream ? `${entry.upstream}${entry.upstreamGone ? ' (gone)' : ''}` : '';
+            const lastCommit = `\`${entry.lastCommitSha.substring(0, 8)}\` ${entry.lastCommitAuthor}, ${entry.lastCommitDate.substring(0, 10)}`;
+            const aheadBehind = entry.ahead === undefined ? '' : `${entry.ahead} / ${entry.behind}`;
+            const status = entry.pullRequest !== undefined && entry.pullRequestState && entry.pullRequestUrl
+                ? `${describeMergeStatus(entry.mergeStatus)}, [${describePullRequest({ number: entry.pullRequest, state: entry.pullRequestState })}](${entry.pullRequestUrl})`
+                : describeMergeStatus(entry.mergeStatus);
+            lines.push(`| ${escapeCell(entry.branch)} | ${escapeCell(upstream)} | ${escapeCell(lastCommit)} | ${aheadBehind} | ${escapeCell(status)} | ${escapeCell(entry.reasons.join('; '))} |`);
+        }
+    }
+
+    if (report.skipped.length > 0) {
+        lines.push('', '## Protected', '', '| Repository | Branch | Reason |', '|---|---|---|');
+        for (const entry of report.skipped) {
+            lines.push(`| ${escapeCell(entry.repository)} | ${escapeCell(entry.branch)} | ${escapeCell(entry.reason)} |`);
+        }
+    }
+    return lines.join('\n') + '\n';
+}
+
+/**
+ * Keep a value inside its markdown table cell
+ */
+function escapeCell(value: string): string {
+    return value.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+}
@@ -0,0 +1,72 @@
+import * as path from 'path';
+import * as fs from 'fs';
+import { pruneHookNames, PruneHooksConfig } from './pruneHooks';
+
+/**
+ * Name of the optional per-repository config file, checked in at the repository root
+ */
+export const repositoryConfigFileName = '.gitbranchpruner.json';
+
+/**
+ * Settings a repository can override through its config file
+ */
+export interface RepositoryConfig {
+    protectedBranches?: string[];
+    /** Commands run for each branch before and after it is pruned */
+    hooks?: PruneHooksConfig;
+}
+
+/**
+ * Load the per-repository config file. Returns an empty config when the file
+ * does not exist and throws when it cannot be parsed.
+ */
+export function loadRepositoryConfig(repositoryPath: string): RepositoryConfig {
+    const configPath = path.join(repositoryPath, repositoryConfigFileName);
+    if (!fs.existsSync(configPath)) {
+        return {};
+    }
+
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(fs.readFileSync(configPath, 'utf8'));
+    } catch (error) {
+        throw new Error(`Invalid ${repositoryConfigFileName}: ${error}`);
+    }
+
+    if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+        throw new Error(`Invalid ${repositoryConfigFileName}: expected a JSON object`);
+    }
+
+    const config = parsed as RepositoryConfig;
+    if (config.protectedBranches !== undefined &&
+        (!Array.isArray(config.protectedBranches) || config.protectedBranches.some(p => typeof p !== 'string'))) {
+        throw new Error(`Invalid ${repositoryConfigFileName}: "protectedBranches" must be an array of strings`);
+    }
+
+    if (config.hooks !== undefined) {
+        validateHooks(config.hooks);
+    }
+
+    return config;
+}
+
+/**
+ * Check that every hook is a command, or a command with a positive timeout
+ */
+function validateHooks(hooks: unknown): void {
+    if (typeof hooks !== 'object' || hooks === null || Array.isArray(hooks)) {
+        throw new Error(`Invalid ${repositoryConfigFileName}: "hooks" must be an object`);
+    }
+    for (const [name, hook] of Object.entries(hooks)) {
+        if (!pruneHookNames.includes(name as keyof PruneHooksConfig)) {
+            throw new Error(`Invalid ${repositoryConfigFileName}: unknown hook "${name}", expected ${pruneHookNames.join(' or ')}`);
+        }
+        const valid = typeof hook === 'string'
+            ? hook.trim() !== ''
+            : typeof hook === 'object' && hook !== null && typeof hook.command === 'string' && hook.command.trim() !== '' &&
+                (hook.timeoutSeconds === undefined || (typeof hook.timeoutSeconds === 'number' && hook.timeoutSeconds > 0));
+        if (!valid) {
+            throw new Error(`Invalid ${repositoryConfigFileName}: hook "${name}" must be a command or { "command": string, "timeoutSeconds"?: number }`);
+        }
+    }
+}
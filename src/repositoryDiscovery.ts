@@ -0,0 +1,164 @@
+import * as path from 'path';
+import * as fs from 'fs';
+import { createGit, GitOptions } from './git';
+import { matchesPattern } from './patterns';
+
+/**
+ * How far and where to look for repositories below each root folder
+ */
+export interface DiscoveryOptions {
+    /** How many directory levels below each root to search; 0 disables recursion */
+    maxDepth: number;
+    /** Globs matched against paths relative to the root, e.g. "**\/node_modules/**" */
+    exclude: string[];
+    includeSubmodules: boolean;
+    /** Applied to the git processes used to list submodules and worktrees */
+    git?: GitOptions;
+}
+
+/**
+ * Find the git repository containing a path by walking up to the filesystem root
+ */
+export function findEnclosingRepository(startPath: string): string | null {
+    let currentPath = startPath;
+
+    while (currentPath !== path.dirname(currentPath)) {
+        if (fs.existsSync(path.join(currentPath, '.git'))) {
+            return currentPath;
+        }
+        currentPath = path.dirname(currentPath);
+    }
+
+    return null;
+}
+
+/**
+ * Check whether a path relative to the root is excluded
+ */
+function isExcluded(relativePath: string, exclude: string[]): boolean {
+    const normalized = relativePath.split(path.sep).join('/');
+    // Match with a trailing slash so "**/node_modules/**" also excludes the folder itself
+    return exclude.some(pattern => matchesPattern(normalized, pattern) || matchesPattern(`${normalized}/`, pattern));
+}
+
+/**
+ * Recursively collect directories that contain a `.git` entry
+ */
+async function findNestedRepositories(root: string, directory: string, depth: number, options: DiscoveryOptions, found: string[]): Promise<void> {
+    if (depth > options.maxDepth) {
+        return;
+    }
+
+    let entries: fs.Dirent[];
+    try {
+        entries = await fs.promises.readdir(directory, { withFileTypes: true });
+    } catch {
+        // Unreadable directories are skipped
+        return;
+    }
+
+    for (const entry of entries) {
+        // Symlinks are not followed to avoid cycles
+        if (!entry.isDirectory() || entry.name === '.git') {
+            continue;
+        }
+        const child = path.join(directory, entry.name);
+        if (isExcluded(path.relative(root, child), options.exclude)) {
+            continue;
+        }
+        if (fs.existsSync(path.join(child, '.git'))) {
+            found.push(child);
+        }
+        await findNestedRepositories(root, child, depth + 1, options, found);
+    }
+}
+
+/**
+ * List initialized submodules of a repository, recursively
+ */
+async function findSubmodules(repositoryPath: string, gitOptions: GitOptions): Promise<string[]> {
+    if (!fs.existsSync(path.join(repositoryPath, '.gitmodules'))) {
+        return [];
+    }
+
+    let output = '';
+    try {
+        output = await createGit(repositoryPath, gitOptions).raw(['config', '--file', '.gitmodules', '--get-regexp', '^submodule\\..*\\.path$']);
+    } catch {
+        return [];
+    }
+
+    const submodules: string[] = [];
+    for (const line of output.split('\n')) {
+        const submodulePath = line.trim().split(' ').slice(1).join(' ');
+        if (!submodulePath) {
+            continue;
+        }
+        const absolutePath = path.join(repositoryPath, submodulePath);
+        // Uninitialized submodules have no .git entry and nothing to prune
+        if (fs.existsSync(path.join(absolutePath, '.git'))) {
+            submodules.push(absolutePath, ...await findSubmodules(absolutePath, gitOptions));
+        }
+    }
+    return submodules;
+}
+
+/**
+ * Get the shared git directory of a repository, which is the same for all of its worktrees
+ */
+async function getCommonGitDir(repositoryPath: string, gitOptions: GitOptions): Promise<string> {
+    try {
+        const commonDir = (await createGit(repositoryPath, gitOptions).raw(['rev-parse', '--git-common-dir'])).trim();
+        return path.resolve(repositoryPath, commonDir);
+    } catch {
+        return path.join(repositoryPath, '.git');
+    }
+}
+
+/**
+ * Collapse linked worktrees of the same repository to a single entry,
+ * preferring the main worktree, since they share all local branches
+ */
+async function dedupeWorktrees(repositories: string[], gitOptions: GitOptions): Promise<string[]> {
+    const byCommonDir = new Map<string, string>();
+    for (const repositoryPath of repositories) {
+        const commonDir = await getCommonGitDir(repositoryPath, gitOptions);
+        const existing = byCommonDir.get(commonDir);
+        if (!existing || path.dirname(commonDir) === repositoryPath) {
+            byCommonDir.set(commonDir, repositoryPath);
+        }
+    }
+    return [...byCommonDir.values()];
+}
+
+/**
+ * Discover repositories for the given root folders: the repository enclosing
+ * each root, nested repositories down to `maxDepth`, submodules, and any
+ * repositories already known to the caller (e.g. from VS Code's git extension)
+ */
+export async function discoverRepositories(roots: string[], options: DiscoveryOptions, knownRepositories: string[] = []): Promise<string[]> {
+    const found: string[] = [...knownRepositories];
+
+    for (const root of roots) {
+        const enclosing = findEnclosingRepository(root);
+        if (enclosing) {
+            found.push(enclosing);
+        }
+        if (options.maxDepth > 0) {
+            await findNestedRepositories(root, root, 1, options, found);
+        }
+    }
+
+    const unique = [...new Set(found.map(p => path.resolve(p)))];
+    if (options.includeSubmodules) {
+        for (const repositoryPath of [...unique]) {
+            for (const submodule of await findSubmodules(repositoryPath, options.git ?? {})) {
+                if (!unique.includes(submodule)) {
+                    unique.push(submodule);
+                }
+            }
+        }
+    }
+
+    return dedupeWorktrees(unique, options.git ?? {});
+}
@@ -0,0 +1,92 @@
+import * as vscode from 'vscode';
+import { RepositoryScan, StaleBranch } from './types';
+
+/**
+ * Latest scan result per repository, persisted in workspace state so stale
+ * counts are available immediately without re-running git
+ */
+export class ScanCache implements vscode.Disposable {
+    private static readonly storageKey = 'gitBranchPruner.scanCache';
+
+    /** Fires with the scan that changed, or undefined when repositories were forgotten */
+    private readonly onDidChangeEmitter = new vscode.EventEmitter<RepositoryScan | undefined>();
+    public readonly onDidChange = this.onDidChangeEmitter.event;
+
+    private scans: Map<string, RepositoryScan>;
+
+    constructor(private readonly state: vscode.Memento) {
+        const stored = state.get<RepositoryScan[]>(ScanCache.storageKey, []);
+        this.scans = new Map(stored.map(scan => [scan.repositoryPath, scan]));
+    }
+
+    /**
+     * Get the latest scan of a repository
+     */
+    public get(repositoryPath: string): RepositoryScan | undefined {
+        return this.scans.get(repositoryPath);
+    }
+
+    /**
+     * Get the latest scan of every repository
+     */
+    public getAll(): RepositoryScan[] {
+        return [...this.scans.values()];
+    }
+
+    /**
+     * Store a scan result. Failed scans keep the previous branches so counts
+     * don't drop to zero while a remote is unreachable.
+     */
+    public async set(scan: RepositoryScan): Promise<void> {
+        const previous = this.scans.get(scan.repositoryPath);
+        const stored = scan.error && previous
+            ? { ...previous, error: scan.error, scannedAt: scan.scannedAt }
+            : scan;
+        this.scans.set(scan.repositoryPath, stored);
+        this.onDidChangeEmitter.fire(stored);
+        await this.persist();
+    }
+
+    /**
+     * Drop branches that no longer exist, e.g. after they were deleted
+     */
+    public async removeBranches(branches: StaleBranch[]): Promise<void> {
+        for (const repositoryPath of new Set(branches.map(b => b.repositoryPath))) {
+            const scan = this.scans.get(repositoryPath);
+            if (!scan) {
+                continue;
+            }
+            const removed = new Set(branches.filter(b => b.repositoryPath === repositoryPath).map(b => b.name));
+            const updated = { ...scan, staleBranches: scan.staleBranches.filter(b => !removed.has(b.name)) };
+            this.scans.set(repositoryPath, updated);
+            this.onDidChangeEmitter.fire(updated);
+        }
+        await this.persist();
+    }
+
+    /**
+     * Forget repositories that are no longer part of the workspace, returning
+     * the paths of those that were removed
+     */
+    public async retain(repositoryPaths: string[]): Promise<string[]> {
+        const keep = new Set(repositoryPaths);
+        const removed = [...this.scans.keys()].filter(repositoryPath => !keep.has(repositoryPath));
+        if (removed.length === 0) {
+            return removed;
+        }
+        for (const repositoryPath of removed) {
+            this.scans.delete(repositoryPath);
+        }
+        this.onDidChangeEmitter.fire(undefined);
+        await this.persist();
+        return removed;
+    }
+
+    private async persist(): Promise<void> {
+        await this.state.update(ScanCache.storageKey, this.getAll());
+    }
+
+    public dispose(): void {
+        this.onDidChangeEmitter.dispose();
+    }
+}
@@ -0,0 +1,25 @@
+/**
+ * Run a worker over items with at most `concurrency` running at once.
+ * Results keep the order of the input. Items not yet started when the
+ * signal is aborted are skipped and get no result.
+ */
+export async function runWithConcurrency<T, R>(
+    items: T[],
+    concurrency: number,
+    worker: (item: T, index: number) => Promise<R>,
+    signal?: AbortSignal
+): Promise<(R | undefined)[]> {
+    const results: (R | undefined)[] = new Array(items.length).fill(undefined);
+    let next = 0;
+
+    const runNext = async (): Promise<void> => {
+        while (next < items.length && !signal?.aborted) {
+            const index = next++;
+            results[index] = await worker(items[index], index);
+        }
+    };
+
+    const lanes = Math.max(1, Math.min(concurrency, items.length));
+    await Promise.all(Array.from({ length: lanes }, () => runNext()));
+    return results;
+}
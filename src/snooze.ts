@@ -0,0 +1,109 @@
+import * as vscode from 'vscode';
+
+/**
+ * Snooze deadlines stored in global state, so a window reload or another
+ * window sees the same snooze
+ */
+interface SnoozeData {
+    /** Auto-scan is paused until this time, in milliseconds */
+    allUntil?: number;
+    /** Notifications for a repository are paused until this time, keyed by repository path */
+    repositories: Record<string, number>;
+    /** When any window last showed a stale branch notification */
+    lastNotificationTime?: number;
+}
+
+/**
+ * Parse a duration such as "90m", "2h", "1.5 hours" or "3d" into milliseconds
+ */
+export function parseDuration(text: string): number | undefined {
+    const match = /^(\d+(?:\.\d+)?)\s*(m|min|mins|minutes?|h|hrs?|hours?|d|days?)$/i.exec(text.trim());
+    if (!match) {
+        return undefined;
+    }
+    const amount = parseFloat(match[1]);
+    const unit = match[2].charAt(0).toLowerCase();
+    const unitMs = unit === 'm' ? 60 * 1000 : unit === 'h' ? 60 * 60 * 1000 : 24 * 60 * 60 * 1000;
+    return amount > 0 ? Math.round(amount * unitMs) : undefined;
+}
+
+/**
+ * Get 9am local time on the day after `now`
+ */
+export function tomorrowMorning(now: number = Date.now(), hour: number = 9): number {
+    const date = new Date(now);
+    date.setDate(date.getDate() + 1);
+    date.setHours(hour, 0, 0, 0);
+    return date.getTime();
+}
+
+/**
+ * Persistent snooze state for auto-scan and its notifications
+ */
+export class SnoozeState {
+    private static readonly storageKey = 'gitBranchPruner.snooze';
+
+    constructor(private readonly state: vscode.Memento) {}
+
+    /**
+     * Get when the snooze for all repositories, or for one repository, ends.
+     * Returns undefined when not snoozed.
+     */
+    public getSnoozedUntil(repositoryPath?: string, now: number = Date.now()): number | undefined {
+        const data = this.read();
+        const until = repositoryPath ? data.repositories[repositoryPath] : data.allUntil;
+        return until !== undefined && until > now ? until : undefined;
+    }
+
+    /**
+     * Snooze everything, or one repository, until the given time
+     */
+    public async snooze(until: number, repositoryPath?: string): Promise<void> {
+        const data = this.read();
+        if (repositoryPath) {
+            data.repositories = { ...data.repositories, [repositoryPath]: until };
+        } else {
+            data.allUntil = until;
+        }
+        await this.write(data);
+    }
+
+    /**
+     * Get every repository with an active snooze and when it ends
+     */
+    public getSnoozedRepositories(now: number = Date.now()): [string, number][] {
+        return Object.entries(this.read().repositories).filter(([, until]) => until > now);
+    }
+
+    /**
+     * End all snoozes
+     */
+    public async clear(): Promise<void> {
+        await this.write({ ...this.read(), allUntil: undefined, repositories: {} });
+    }
+
+    /**
+     * When any window last showed a stale branch notification
+     */
+    public getLastNotificationTime(): number {
+        return this.read().lastNotificationTime ?? 0;
+    }
+
+    /**
+     * Record that a stale branch notification was shown
+     */
+    public async setLastNotificationTime(time: number = Date.now()): Promise<void> {
+        await this.write({ ...this.read(), lastNotificationTime: time });
+    }
+
+    private read(): SnoozeData {
+        return { repositories: {}, ...this.state.get<SnoozeData>(SnoozeState.storageKey) };
+    }
+
+    private async write(data: SnoozeData): Promise<void> {
+        // Drop expired repository snoozes so the state doesn't grow forever
+        const now = Date.now();
+        const repositories = Object.fromEntries(Object.entries(data.repositories).filter(([, until]) => until > now));
+        await this.state.update(SnoozeState.storageKey, { ...data, repositories });
+    }
+}
@@ -0,0 +1,215 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { RepositoryScan, StaleBranch } from './types';
+import { describeMergeStatus, isBranchSafeToDelete } from './mergeStatus';
+import { describePullRequest } from './pullRequests';
+import { describeGitFailure, GitFailure } from './git';
+
+/**
+ * Tree node for a repository that has stale branches
+ */
+export interface RepositoryNode {
+    kind: 'repository';
+    repositoryPath: string;
+    repositoryName: string;
+}
+
+/**
+ * Tree node for a single stale branch
+ */
+export interface BranchNode {
+    kind: 'branch';
+    branch: StaleBranch;
+}
+
+export type StaleTreeNode = RepositoryNode | BranchNode;
+
+/**
+ * Build a key that uniquely identifies a branch across repositories
+ */
+function branchKey(branch: StaleBranch): string {
+    return `${branch.repositoryPath}\0${branch.name}`;
+}
+
+/**
+ * Tree data provider backing the "Stale Branches" view in the SCM sidebar
+ */
+export class StaleBranchesProvider implements vscode.TreeDataProvider<StaleTreeNode> {
+    private readonly onDidChangeTreeDataEmitter = new vscode.EventEmitter<StaleTreeNode | undefined>();
+    public readonly onDidChangeTreeData = this.onDidChangeTreeDataEmitter.event;
+
+    private branchesByRepo = new Map<string, StaleBranch[]>();
+    private errorsByRepo = new Map<string, GitFailure>();
+    private checked = new Set<string>();
+    private kept = new Set<string>();
+
+    /**
+     * Replace what is shown for a repository with the result of a new scan
+     */
+    public setScan(scan: RepositoryScan): void {
+        if (scan.error) {
+            // Keep the last known branches; the failure is shown on the repository node
+            this.errorsByRepo.set(scan.repositoryPath, scan.error);
+            this.onDidChangeTreeDataEmitter.fire(undefined);
+            return;
+        }
+        this.errorsByRepo.delete(scan.repositoryPath);
+        this.setBranches(scan.repositoryPath, scan.staleBranches);
+    }
+
+    /**
+     * Replace the stale branches shown for a repository
+     */
+    private setBranches(repositoryPath: string, branches: StaleBranch[]): void {
+        const visible = branches.filter(b => !this.kept.has(branchKey(b)));
+        const visibleKeys = new Set(visible.map(branchKey));
+
+        // Drop checkbox state for branches that are no longer stale
+        for (const key of [...this.checked]) {
+            if (key.startsWith(`${repositoryPath}\0`) && !visibleKeys.has(key)) {
+                this.checked.delete(key);
+            }
+        }
+
+        if (visible.length > 0) {
+            this.branchesByRepo.set(repositoryPath, visible);
+        } else {
+            this.branchesByRepo.delete(repositoryPath);
+        }
+        this.onDidChangeTreeDataEmitter.fire(undefined);
+    }
+
+    /**
+     * Remove branches from the view, e.g. after they were deleted
+     */
+    public removeBranches(branches: StaleBranch[]): void {
+        const keys = new Set(branches.map(branchKey));
+        for (const [repositoryPath, repoBranches] of this.branchesByRepo) {
+            const remaining = repoBranches.filter(b => !keys.has(branchKey(b)));
+            if (remaining.length > 0) {
+                this.branchesByRepo.set(repositoryPath, remaining);
+            } else {
+                this.branchesByRepo.delete(repositoryPath);
+            }
+        }
+        keys.forEach(key => this.checked.delete(key));
+        this.onDidChangeTreeDataEmitter.fire(undefined);
+    }
+
+    /**
+     * Stop showing repositories, e.g. after they left the workspace
+     */
+    public removeRepositories(repositoryPaths: string[]): void {
+        for (const repositoryPath of repositoryPaths) {
+            this.branchesByRepo.delete(repositoryPath);
+            this.errorsByRepo.delete(repositoryPath);
+            for (const key of [...this.checked]) {
+                if (key.startsWith(`${repositoryPath}\0`)) {
+                    this.checked.delete(key);
+                }
+            }
+        }
+        this.onDidChangeTreeDataEmitter.fire(undefined);
+    }
+
+    /**
+     * Hide a branch from the view for the rest of the session
+     */
+    public keepBranch(branch: StaleBranch): void {
+        this.kept.add(branchKey(branch));
+        this.removeBranches([branch]);
+    }
+
+    /**
+     * Update checkbox state after the user toggles items in the tree
+     */
+    public updateCheckboxes(items: ReadonlyArray<[StaleTreeNode, vscode.TreeItemCheckboxState]>): void {
+        for (const [node, state] of items) {
+            const branches = node.kind === 'branch'
+                ? [node.branch]
+                : this.branchesByRepo.get(node.repositoryPath) ?? [];
+            for (const branch of branches) {
+                if (state === vscode.TreeItemCheckboxState.Checked) {
+                    this.checked.add(branchKey(branch));
+                } else {
+                    this.checked.delete(branchKey(branch));
+                }
+            }
+        }
+    }
+
+    /**
+     * Get all branches currently checked in the tree
+     */
+    public getCheckedBranches(): StaleBranch[] {
+        const result: StaleBranch[] = [];
+        for (const branches of this.branchesByRepo.values()) {
+            result.push(...branches.filter(b => this.checked.has(branchKey(b))));
+        }
+        return result;
+    }
+
+    public getTreeItem(node: StaleTreeNode): vscode.TreeItem {
+        if (node.kind === 'repository') {
+            const branches = this.branchesByRepo.get(node.repositoryPath) ?? [];
+            const error = this.errorsByRepo.get(node.repositoryPath);
+            const item = new vscode.TreeItem(node.repositoryName, vscode.TreeItemCollapsibleState.Expanded);
+            item.id = `repo:${node.repositoryPath}`;
+            item.description = error
+                ? `scan ${describeGitFailure(error)}`
+                : `${branches.length} stale`;
+            item.tooltip = error
+                ? `${node.repositoryPath}\nLast scan ${describeGitFailure(error)}: ${error.message}`
+                : node.repositoryPath;
+            item.iconPath = error
+                ? new vscode.ThemeIcon('error', new vscode.ThemeColor('list.errorForeground'))
+                : new vscode.ThemeIcon('repo');
+            item.contextValue = 'staleRepository';
+            item.checkboxState = branches.length > 0 && branches.every(b => this.checked.has(branchKey(b)))
+                ? vscode.TreeItemCheckboxState.Checked
+                : vscode.TreeItemCheckboxState.Unchecked;
+            return item;
+        }
+
+        const branch = node.branch;
+        const item = new vscode.TreeItem(branch.name, vscode.TreeItemCollapsibleState.None);
+        item.id = `branch:${branchKey(branch)}`;
+        const pullRequest = branch.pullRequest ? describePullRequest(branch.pullRequest) : undefined;
+        item.description = [describeMergeStatus(branch.mergeStatus), ...pullRequest ? [pullRequest] : []].join(' · ');
+        const commitLines = branch.uniqueCommits.map(c => `${c.sha.substring(0, 8)} ${c.subject}`);
+        const reasonLines = branch.matchedRules.map(m => `• ${m.reason}`);
+        const pullRequestLines = branch.pullRequest ? [`${pullRequest}: ${branch.pullRequest.url}`] : [];
+        item.tooltip = [`${branch.repositoryName}: ${branch.name}`, ...reasonLines, ...pullRequestLines, ...commitLines].join('\n');
+        item.iconPath = isBranchSafeToDelete(branch)
+            ? new vscode.ThemeIcon('git-branch')
+            : new vscode.ThemeIcon('warning', new vscode.ThemeColor('list.warningForeground'));
+        item.contextValue = 'staleBranch';
+        item.checkboxState = this.checked.has(branchKey(branch))
+            ? vscode.TreeItemCheckboxState.Checked
+            : vscode.TreeItemCheckboxState.Unchecked;
+        return item;
+    }
+
+    public getChildren(node?: StaleTreeNode): StaleTreeNode[] {
+        if (!node) {
+            return [...new Set([...this.branchesByRepo.keys(), ...this.errorsByRepo.keys()])]
+                .sort((a, b) => path.basename(a).localeCompare(path.basename(b)))
+                .map(repositoryPath => ({
+                    kind: 'repository',
+                    repositoryPath,
+                    repositoryName: path.basename(repositoryPath)
+                }));
+        }
+
+        if (node.kind === 'repository') {
+            return (this.branchesByRepo.get(node.repositoryPath) ?? [])
+                .map(branch => ({ kind: 'branch', branch }));
+        }
+
+        return [];
+    }
+
+    public dispose(): void {
+        this.onDidChangeTreeDataEmitter.dispose();
+    }
+}
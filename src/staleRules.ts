@@ -0,0 +1,160 @@
+import { SimpleGit } from 'simple-git';
+
+/**
+ * Criteria that can flag a branch as stale
+ * - upstreamGone: the branch's upstream ref or remote has disappeared
+ * - inactive: the last commit is older than `inactiveDays`
+ * - merged: the branch is fully merged into the default branch
+ * - noRecentCheckout: HEAD has not been on the branch for `noCheckoutDays`
+ */
+export type StaleRuleId = 'upstreamGone' | 'inactive' | 'merged' | 'noRecentCheckout';
+
+/**
+ * Every rule, in the order they are documented
+ */
+export const staleRuleIds: StaleRuleId[] = ['upstreamGone', 'inactive', 'merged', 'noRecentCheckout'];
+
+/**
+ * Configured rules and how their results are combined
+ */
+export interface StaleRulesConfig {
+    rules: StaleRuleId[];
+    combination: 'or' | 'and';
+    inactiveDays: number;
+    noCheckoutDays: number;
+}
+
+/**
+ * A rule that matched a branch, with a human readable explanation
+ */
+export interface RuleMatch {
+    rule: StaleRuleId;
+    reason: string;
+}
+
+/**
+ * What is known about a branch when evaluating the rules
+ */
+export interface BranchFacts {
+    /** Explanation when the upstream is gone, undefined while it still exists */
+    upstreamGoneReason?: string;
+    /** Committer date of the branch tip, in milliseconds */
+    lastCommitTime: number;
+    mergedIntoDefault: boolean;
+    /** Last time HEAD moved to or away from the branch, in milliseconds */
+    lastCheckoutTime?: number;
+    /** Last time the branch ref was created or moved, from its own reflog, in milliseconds */
+    lastRefUpdateTime?: number;
+}
+
+const dayMs = 24 * 60 * 60 * 1000;
+
+/**
+ * Evaluate a single rule, returning the match or undefined
+ */
+function evaluateRule(rule: StaleRuleId, facts: BranchFacts, config: StaleRulesConfig, now: number): RuleMatch | undefined {
+    switch (rule) {
+        case 'upstreamGone':
+            return facts.upstreamGoneReason
+                ? { rule, reason: `upstream gone: ${facts.upstreamGoneReason}` }
+                : undefined;
+        case 'inactive': {
+            const ageDays = Math.floor((now - facts.lastCommitTime) / dayMs);
+            return ageDays >= config.inactiveDays
+                ? { rule, reason: `no commits for ${ageDays} days` }
+                : undefined;
+        }
+        case 'merged':
+            return facts.mergedIntoDefault
+                ? { rule, reason: 'fully merged into the default branch' }
+                : undefined;
+        case 'noRecentCheckout': {
+            // The HEAD reflog is per worktree, so branches created with `git branch`
+            // or only used in another worktree count from their own last update
+            const checkedOut = facts.lastCheckoutTime !== undefined;
+            const lastUsed = facts.lastCheckoutTime ?? facts.lastRefUpdateTime ?? facts.lastCommitTime;
+            const days = Math.floor((now - lastUsed) / dayMs);
+            if (days < config.noCheckoutDays) {
+                return undefined;
+            }
+            return { rule, reason: checkedOut ? `not checked out for ${days} days` : `no checkout recorded, unchanged for ${days} days` };
+        }
+    }
+}
+
+/**
+ * Evaluate the configured rules against a branch. Returns the matched rules
+ * when the branch is stale under the configured combination, otherwise undefined.
+ */
+export function evaluateStaleRules(facts: BranchFacts, config: StaleRulesConfig, now: number = Date.now()): RuleMatch[] | undefined {
+    if (config.rules.length === 0) {
+        return undefined;
+    }
+
+    const matches: RuleMatch[] = [];
+    for (const rule of config.rules) {
+        const match = evaluateRule(rule, facts, config, now);
+        if (match) {
+            matches.push(match);
+        } else if (config.combination === 'and') {
+            return undefined;
+        }
+    }
+
+    return matches.length > 0 ? matches : undefined;
+}
+
+/**
+ * List local branches fully merged into the given ref
+ */
+export async function listMergedBranches(git: SimpleGit, defaultBranch: string): Promise<Set<string>> {
+    const output = await git.raw(['for-each-ref', `--merged=${defaultBranch}`, '--format=%(refname)', 'refs/heads']);
+    return new Set(output.split('\n')
+        .map(line => line.trim())
+        .filter(line => line.startsWith('refs/heads/'))
+        .map(line => line.substring('refs/heads/'.length)));
+}
+
+/**
+ * Get when a branch was last created or moved, from the newest entry of its
+ * reflog, or undefined when it has none
+ */
+export async function getLastRefUpdateTime(git: SimpleGit, branchName: string): Promise<number | undefined> {
+    try {
+        const output = await git.raw(['reflog', 'show', '--date=unix', '--format=%gd', '-n', '1', `refs/heads/${branchName}`, '--']);
+        const time = /@\{(\d+)\}$/.exec(output.trim());
+        return time ? parseInt(time[1], 10) * 1000 : undefined;
+    } catch {
+        // Reflogs may be disabled, e.g. with core.logAllRefUpdates=false
+        return undefined;
+    }
+}
+
+/**
+ * Find when HEAD last moved to or away from each branch, from the HEAD reflog
+ */
+export async function getLastCheckoutTimes(git: SimpleGit): Promise<Map<string, number>> {
+    const times = new Map<string, number>();
+    let output = '';
+    try {
+        output = await git.raw(['reflog', 'show', '--date=unix', '--format=%gd%x00%gs', 'HEAD', '--']);
+    } catch {
+        // A fresh repository has no HEAD reflog yet
+        return times;
+    }
+
+    for (const line of output.split('\n')) {
+        const [selector, subject] = line.split('\0');
+        const time = /@\{(\d+)\}$/.exec(selector ?? '');
+        const checkout = /^checkout: moving from (.+) to (.+)$/.exec(subject ?? '');
+        if (!time || !checkout) {
+            continue;
+        }
+        const timestamp = parseInt(time[1], 10) * 1000;
+        for (const branch of [checkout[1], checkout[2]]) {
+            times.set(branch, Math.max(times.get(branch) ?? 0, timestamp));
+        }
+    }
+
+    return times;
+}
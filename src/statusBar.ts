@@ -0,0 +1,140 @@
+import * as vscode from 'vscode';
+import { RepositoryScan } from './types';
+import { describeGitFailure } from './git';
+
+/**
+ * Status bar badge showing the stale branch count from the latest scans.
+ * The count is for the repository of the active editor when it has been
+ * scanned, otherwise the total across all scanned repositories.
+ */
+export class StaleStatusBar implements vscode.Disposable {
+    private readonly item: vscode.StatusBarItem;
+    private busyText: string | undefined;
+    private scans: RepositoryScan[] = [];
+    private activeRepository: string | undefined;
+
+    constructor() {
+        this.item = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 100);
+        this.item.command = 'gitBranchPruner.showMenu';
+        this.render();
+        this.item.show();
+    }
+
+    /**
+     * Replace the scan results the badge is computed from
+     */
+    public setScans(scans: RepositoryScan[]): void {
+        this.scans = scans;
+        this.render();
+    }
+
+    /**
+     * Set the repository of the active editor, if any
+     */
+    public setActiveRepository(repositoryPath: string | undefined): void {
+        if (repositoryPath !== this.activeRepository) {
+            this.activeRepository = repositoryPath;
+            this.render();
+        }
+    }
+
+    /**
+     * Show a spinner with a message while a long running operation is in progress
+     */
+    public setBusy(message: string): void {
+        this.busyText = message;
+        this.render();
+    }
+
+    /**
+     * Go back to showing the stale branch count
+     */
+    public clearBusy(): void {
+        this.busyText = undefined;
+        this.render();
+    }
+
+    private render(): void {
+        if (this.busyText) {
+            this.item.text = `$(loading~spin) ${this.busyText}`;
+            this.item.backgroundColor = undefined;
+            return;
+        }
+
+        if (this.scans.length === 0) {
+            this.item.text = '$(git-branch) Prune';
+            this.item.tooltip = 'Click to manage stale git branches';
+            this.item.backgroundColor = undefined;
+            return;
+        }
+
+        const activeScan = this.scans.find(scan => scan.repositoryPath === this.activeRepository);
+        const count = activeScan
+            ? activeScan.staleBranches.length
+            : this.scans.reduce((total, scan) => total + scan.staleBranches.length, 0);
+
+        const config = vscode.workspace.getConfiguration('gitBranchPruner');
+        const threshold = config.get<number>('statusBarWarningThreshold', 10);
+
+        this.item.text = `$(git-branch) ${count} stale`;
+        this.item.backgroundColor = threshold > 0 && count > threshold
+            ? new vscode.ThemeColor('statusBarItem.warningBackground')
+            : undefined;
+        this.item.tooltip = this.buildTooltip(activeScan);
+    }
+
+    private buildTooltip(activeScan: RepositoryScan | undefined): vscode.MarkdownString {
+        const tooltip = new vscode.MarkdownString(undefined, true);
+        tooltip.isTrusted = {
+            enabledCommands: [
+                'gitBranchPruner.pruneStale',
+                'gitBranchPruner.showPruneableStatus',
+                'gitBranchPruner.refreshStaleBranches'
+            ]
+        };
+
+        tooltip.appendMarkdown(activeScan
+            ? `**Stale branches** · showing ${escapeMarkdown(activeScan.repositoryName)}\n\n`
+            : '**Stale branches** · all repositories\n\n');
+        tooltip.appendMarkdown('| Repository | Stale | Scanned |\n|---|---:|---|\n');
+        for (const scan of [...this.scans].sort((a, b) => b.staleBranches.length - a.staleBranches.length)) {
+            const name = scan.repositoryPath === this.activeRepository
+                ? `**${escapeMarkdown(scan.repositoryName)}**`
+                : escapeMarkdown(scan.repositoryName);
+            const status = scan.error
+                ? `$(error) ${describeGitFailure(scan.error)}`
+                : formatAge(scan.scannedAt);
+            tooltip.appendMarkdown(`| ${name} | ${scan.staleBranches.length} | ${status} |\n`);
+        }
+        tooltip.appendMarkdown('\n[$(trash) Prune](command:gitBranchPruner.pruneStale)');
+        tooltip.appendMarkdown(' · [$(eye) Identify](command:gitBranchPruner.showPruneableStatus)');
+        tooltip.appendMarkdown(' · [$(refresh) Rescan](command:gitBranchPruner.refreshStaleBranches)');
+        return tooltip;
+    }
+
+    public dispose(): void {
+        this.item.dispose();
+    }
+}
+
+/**
+ * Escape characters that would break a markdown table cell
+ */
+function escapeMarkdown(text: string): string {
+    return text.replace(/[\\`*_{}[\]()#+\-.!|]/g, '\\$&');
+}
+
+/**
+ * Format how long ago a scan ran, e.g. "5 min ago"
+ */
+function formatAge(timestamp: number): string {
+    const minutes = Math.floor((Date.now() - timestamp) / (60 * 1000));
+    if (minutes < 1) {
+        return 'just now';
+    }
+    if (minutes < 60) {
+        return `${minutes} min ago`;
+    }
+    const hours = Math.floor(minutes / 60);
+    return hours < 24 ? `${hours} h ago` : `${Math.floor(hours / 24)} d ago`;
+}
@@ -0,0 +1,84 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import { BranchPruner, defaultPrunerSettings } from '../../pruner';
+import { ArchiveSettings, defaultArchiveSettings, expandNamespace } from '../../archive';
+import { branchExists, createPushedBranch, createRepositoryWithRemote, deleteRemoteBranch, git, removeFixture, RepositoryFixture } from './gitFixtures';
+
+const dayMs = 24 * 60 * 60 * 1000;
+
+function createPruner(archive: Partial<ArchiveSettings> = {}): BranchPruner {
+    return new BranchPruner({ ...defaultPrunerSettings, archive: { ...defaultArchiveSettings, ...archive } });
+}
+
+suite('Archive', () => {
+    let fixture: RepositoryFixture;
+
+    setup(() => {
+        fixture = createRepositoryWithRemote();
+        createPushedBranch(fixture.repo, 'feature/one');
+        createPushedBranch(fixture.repo, 'feature/two');
+        deleteRemoteBranch(fixture, 'feature/one');
+        deleteRemoteBranch(fixture, 'feature/two');
+    });
+
+    teardown(() => {
+        removeFixture(fixture);
+    });
+
+    test('expands date placeholders in the namespace', () => {
+        assert.strictEqual(expandNamespace('refs/archive/YYYY-MM/', new Date(2024, 4, 7)), 'refs/archive/2024-05');
+        assert.strictEqual(expandNamespace('refs/old/YYYY/MM/DD', new Date(2024, 11, 25)), 'refs/old/2024/12/25');
+    });
+
+    test('moves branches to the namespace, lists and restores them', async () => {
+        const pruner = createPruner();
+        const branches = (await pruner.scanRepository(fixture.repo)).staleBranches;
+
+        const result = await pruner.prune(branches, { force: true, archive: 'archiveRef' });
+        const namespace = expandNamespace(defaultArchiveSettings.namespace, new Date());
+        const archives = await pruner.listArchives(fixture.repo);
+
+        assert.deepStrictEqual(result.deleted.map(b => b.archivedAs), [`${namespace}/feature/one`, `${namespace}/feature/two`]);
+        assert.deepStrictEqual(archives.map(a => a.branch).sort(), ['feature/one', 'feature/two']);
+        assert.ok(archives.every(a => a.kind === 'ref' && Date.now() - a.archivedAt < dayMs));
+
+        const archived = archives.find(a => a.branch === 'feature/one')!;
+        await pruner.restoreArchive(fixture.repo, archived);
+        assert.strictEqual(git(fixture.repo, 'rev-parse', 'feature/one'), branches[0].lastCommit.sha);
+        assert.deepStrictEqual((await pruner.listArchives(fixture.repo)).map(a => a.branch), ['feature/two']);
+    });
+
+    test('writes one bundle per repository and restores from it', async () => {
+        const bundleDirectory = path.join(fixture.root, 'bundles');
+        const pruner = createPruner({ mode: 'bundle', bundleDirectory });
+        const branches = (await pruner.scanRepository(fixture.repo)).staleBranches;
+
+        const result = await pruner.prune(branches, { force: true, archive: 'bundle' });
+        const archives = await pruner.listArchives(fixture.repo);
+
+        assert.strictEqual(fs.readdirSync(bundleDirectory).length, 1);
+        assert.ok(result.deleted.every(b => b.archivedAs === archives[0].bundlePath));
+        assert.deepStrictEqual(archives.map(a => a.branch).sort(), ['feature/one', 'feature/two']);
+        assert.ok(!branchExists(fixture.repo, 'feature/two'));
+
+        await pruner.restoreArchive(fixture.repo, archives.find(a => a.branch === 'feature/two')!, 'feature/two-restored');
+        assert.strictEqual(git(fixture.repo, 'rev-parse', 'feature/two-restored'), branches[1].lastCommit.sha);
+    });
+
+    test('removes archives older than the retention period', async () => {
+        const bundleDirectory = path.join(fixture.root, 'bundles');
+        const pruner = createPruner({ bundleDirectory, retentionDays: 30 });
+        const [one, two] = (await pruner.scanRepository(fixture.repo)).staleBranches;
+        await pruner.prune([one], { force: true, archive: 'archiveRef' });
+        await pruner.prune([two], { force: true, archive: 'bundle' });
+        git(fixture.repo, 'tag', 'archive/kept', 'main');
+
+        assert.deepStrictEqual(await pruner.removeExpiredArchives(fixture.repo, Date.now() + 29 * dayMs), []);
+        const removed = await pruner.removeExpiredArchives(fixture.repo, Date.now() + 31 * dayMs);
+
+        assert.deepStrictEqual(removed.map(a => a.kind).sort(), ['bundle', 'ref']);
+        assert.deepStrictEqual(fs.readdirSync(bundleDirectory), []);
+        assert.deepStrictEqual((await pruner.listArchives(fixture.repo)).map(a => a.ref), ['refs/tags/archive/kept']);
+    });
+});
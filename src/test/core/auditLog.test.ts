@@ -0,0 +1,75 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import { BranchPruner, defaultPrunerSettings } from '../../pruner';
+import { AuditEntry, AuditLog, filterAuditEntries, formatAuditEntry, getAuditUser, parseAuditLog } from '../../auditLog';
+import { createPushedBranch, createRepositoryWithRemote, deleteRemoteBranch, git, removeFixture, RepositoryFixture } from './gitFixtures';
+
+function entry(repositoryPath: string, branch: string, time: string): AuditEntry {
+    return { time, user: 'ada', action: 'delete', repositoryPath, branch, sha: 'a'.repeat(40), outcome: 'succeeded' };
+}
+
+suite('Audit log', () => {
+    let fixture: RepositoryFixture;
+    let auditLogPath: string;
+
+    setup(() => {
+        fixture = createRepositoryWithRemote();
+        auditLogPath = path.join(fixture.root, 'logs', 'audit.jsonl');
+    });
+
+    teardown(() => {
+        removeFixture(fixture);
+    });
+
+    test('records deleted, archived and failed branches with user and SHA', async () => {
+        for (const branch of ['feature/done', 'feature/kept', 'feature/broken']) {
+            createPushedBranch(fixture.repo, branch);
+            deleteRemoteBranch(fixture, branch);
+        }
+        const pruner = new BranchPruner({ ...defaultPrunerSettings, auditLogPath });
+        const [broken, done, kept] = (await pruner.scanRepository(fixture.repo)).staleBranches;
+        const sha = git(fixture.repo, 'rev-parse', 'feature/done').trim();
+
+        await pruner.deleteBranches([done]);
+        await pruner.deleteBranches([kept], { archive: 'archiveRef' });
+        await pruner.deleteBranches([{ ...broken, name: 'does-not-exist' }]);
+
+        const entries = await new AuditLog(auditLogPath).read();
+        assert.deepStrictEqual(entries.map(e => [e.action, e.branch, e.outcome]), [
+            ['delete', 'feature/done', 'succeeded'],
+            ['archive', 'feature/kept', 'succeeded'],
+            ['delete', 'does-not-exist', 'failed']
+        ]);
+        assert.strictEqual(entries[0].sha, sha);
+        assert.strictEqual(entries[0].user, getAuditUser());
+        assert.strictEqual(entries[0].repositoryPath, fixture.repo);
+        assert.match(entries[1].detail!, /^refs\/archive\/.*\/feature\/kept$/);
+        assert.ok(entries[2].detail);
+        assert.ok(!isNaN(Date.parse(entries[0].time)));
+    });
+
+    test('appends to the existing log and skips lines that are not entries', async () => {
+        const auditLog = new AuditLog(auditLogPath);
+        await auditLog.append([entry('/work/app', 'one', '2024-05-01T10:00:00.000Z')]);
+        fs.appendFileSync(auditLogPath, '{"time": "2024-05-02T\n');
+        await auditLog.append([entry('/work/app', 'two', '2024-05-03T10:00:00.000Z')]);
+
+        assert.deepStrictEqual((await auditLog.read()).map(e => e.branch), ['one', 'two']);
+        assert.deepStrictEqual(parseAuditLog('not json\n{}\n'), []);
+        assert.deepStrictEqual(await new AuditLog(path.join(fixture.root, 'missing.jsonl')).read(), []);
+    });
+
+    test('filters entries by repository and date', () => {
+        const entries = [
+            entry('/work/app', 'old', '2024-04-01T10:00:00.000Z'),
+            entry('/work/app', 'new', '2024-05-02T10:00:00.000Z'),
+            entry('/work/lib', 'other', '2024-05-03T10:00:00.000Z')
+        ];
+
+        assert.deepStrictEqual(filterAuditEntries(entries, { repositoryPath: '/work/app' }).map(e => e.branch), ['old', 'new']);
+        assert.deepStrictEqual(filterAuditEntries(entries, { since: Date.parse('2024-05-01T00:00:00.000Z') }).map(e => e.branch), ['new', 'other']);
+        assert.deepStrictEqual(filterAuditEntries(entries, { repositoryPath: '/work/lib', since: Date.parse('2024-06-01T00:00:00.000Z') }), []);
+        assert.strictEqual(formatAuditEntry(entries[0]), `2024-04-01T10:00:00.000Z  ada  delete  succeeded  /work/app  old  ${'a'.repeat(12)}`);
+    });
+});
@@ -0,0 +1,61 @@
+import * as assert from 'assert';
+import { StaleBranch } from '../../types';
+import { MergeStatus } from '../../mergeStatus';
+import { addToSummary, isSummaryDue, selectAutoPruneBranches } from '../../autoPrune';
+
+const dayMs = 24 * 60 * 60 * 1000;
+const now = Date.UTC(2024, 5, 1);
+
+function branch(name: string, options: { gone?: boolean; mergeStatus?: MergeStatus; ageDays?: number } = {}): StaleBranch {
+    return {
+        name,
+        repositoryPath: '/work/app',
+        repositoryName: 'app',
+        upstream: { remote: 'origin', mergeRef: `refs/heads/${name}`, gone: options.gone ?? true },
+        matchedRules: [{ rule: 'upstreamGone', reason: 'gone' }],
+        mergeStatus: options.mergeStatus ?? 'merged',
+        uniqueCommits: [],
+        lastCommit: { sha: '0'.repeat(40), author: 'Ada', time: now - (options.ageDays ?? 30) * dayMs }
+    };
+}
+
+suite('Auto-prune policy', () => {
+    const policy = { minAgeDays: 14, maxPerRun: 2 };
+
+    test('only selects merged branches with a gone upstream older than the minimum age', () => {
+        const safe = branch('safe');
+        const squashed = branch('squashed', { mergeStatus: 'squashMerged' });
+        const unmerged = branch('unmerged', { mergeStatus: 'unmerged' });
+        const recent = branch('recent', { ageDays: 3 });
+        const tracked = branch('tracked', { gone: false });
+
+        const selection = selectAutoPruneBranches([safe, squashed, unmerged, recent, tracked], policy, now);
+
+        assert.deepStrictEqual(selection.eligible, [safe]);
+        assert.deepStrictEqual(selection.deferred, []);
+        assert.deepStrictEqual(selection.remaining.map(b => b.name), ['squashed', 'unmerged', 'recent', 'tracked']);
+    });
+
+    test('defers branches over the per-run maximum, oldest first', () => {
+        const selection = selectAutoPruneBranches([
+            branch('newer', { ageDays: 20 }),
+            branch('oldest', { ageDays: 90 }),
+            branch('older', { ageDays: 40 })
+        ], policy, now);
+
+        assert.deepStrictEqual(selection.eligible.map(b => b.name), ['oldest', 'older']);
+        assert.deepStrictEqual(selection.deferred.map(b => b.name), ['newer']);
+        assert.deepStrictEqual(selection.remaining, []);
+    });
+
+    test('summarizes deletions once a day has passed', () => {
+        const first = addToSummary(undefined, [branch('a')], now);
+        const second = addToSummary(first, [branch('b')], now + dayMs / 2);
+
+        assert.strictEqual(second.periodStart, now);
+        assert.deepStrictEqual(second.deleted.map(entry => entry.branch), ['a', 'b']);
+        assert.strictEqual(isSummaryDue(second, now + dayMs / 2), false);
+        assert.strictEqual(isSummaryDue(second, now + dayMs), true);
+        assert.strictEqual(isSummaryDue(undefined, now + dayMs), false);
+    });
+});
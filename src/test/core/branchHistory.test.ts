@@ -0,0 +1,78 @@
+import * as assert from 'assert';
+import { RepositoryScan } from '../../types';
+import { addDeletions, addScan, RepositoryHistory, summarizeTrends } from '../../branchHistory';
+
+const dayMs = 24 * 60 * 60 * 1000;
+const now = new Date(2024, 5, 1, 12).getTime();
+
+function scan(repositoryPath: string, staleCount: number, scannedAt: number): RepositoryScan {
+    return {
+        repositoryPath,
+        repositoryName: repositoryPath.split('/').pop()!,
+        staleBranches: Array.from({ length: staleCount }, (unused, i) => ({
+            name: `stale-${i}`,
+            repositoryPath,
+            repositoryName: repositoryPath.split('/').pop()!,
+            matchedRules: [{ rule: 'upstreamGone' as const, reason: 'gone' }],
+            mergeStatus: 'merged' as const,
+            uniqueCommits: [],
+            lastCommit: { sha: '0'.repeat(40), author: 'Ada', time: 0 }
+        })),
+        skippedBranches: [],
+        scannedAt,
+        fetched: true,
+        branchStats: { localBranches: staleCount + 2, withoutUpstream: 1, oldestCommitTime: scannedAt - 90 * dayMs }
+    };
+}
+
+function record(repositoryPath: string, staleCounts: [daysAgo: number, count: number][]): RepositoryHistory {
+    let history: RepositoryHistory | undefined;
+    for (const [daysAgo, count] of staleCounts) {
+        history = addScan(history, scan(repositoryPath, count, now - daysAgo * dayMs));
+    }
+    return history!;
+}
+
+suite('Branch history', () => {
+    test('keeps one sample per day and ignores failed scans', () => {
+        let history = addScan(undefined, scan('/work/app', 1, now - 2 * 60 * 60 * 1000));
+        history = addScan(history, scan('/work/app', 3, now));
+        history = addScan(history, { ...scan('/work/app', 0, now + 60 * 1000), branchStats: undefined });
+
+        assert.deepStrictEqual(history?.samples.map(s => [s.staleBranches, s.localBranches, s.withoutUpstream]), [[3, 5, 1]]);
+        assert.strictEqual(addScan(undefined, { ...scan('/work/app', 1, now), branchStats: undefined }), undefined);
+    });
+
+    test('drops samples and deletions past the retention period', () => {
+        let history: RepositoryHistory | undefined = addDeletions(undefined, { repositoryPath: '/work/app', repositoryName: 'app' }, 2, now - 400 * dayMs);
+        history = addScan(history, scan('/work/app', 1, now - 400 * dayMs));
+        history = addScan(history, scan('/work/app', 2, now));
+
+        assert.deepStrictEqual(history?.samples.map(s => s.staleBranches), [2]);
+        assert.deepStrictEqual(history?.deletions, []);
+    });
+
+    test('counts deletions per day', () => {
+        const repository = { repositoryPath: '/work/app', repositoryName: 'app' };
+        let history = addDeletions(undefined, repository, 2, now - dayMs);
+        history = addDeletions(history, repository, 1, now);
+        history = addDeletions(history, repository, 3, now + 60 * 1000);
+
+        assert.deepStrictEqual(history.deletions.map(d => d.count), [2, 4]);
+    });
+
+    test('ranks repositories by how fast they gain stale branches', () => {
+        const steady = record('/work/steady', [[20, 2], [0, 2]]);
+        const rotting = record('/work/rotting', [[40, 0], [14, 1], [0, 5]]);
+        const cleaned = addDeletions(record('/work/cleaned', [[7, 6], [0, 1]]), { repositoryPath: '/work/cleaned', repositoryName: 'cleaned' }, 5, now - dayMs);
+        const fresh = record('/work/fresh', [[0, 3]]);
+
+        const trends = summarizeTrends([steady, rotting, cleaned, fresh], now);
+
+        assert.deepStrictEqual(trends.map(t => t.repositoryName), ['rotting', 'fresh', 'steady', 'cleaned']);
+        assert.strictEqual(trends[0].staleGrowthPerWeek, 2);
+        assert.strictEqual(trends[1].staleGrowthPerWeek, 0);
+        assert.strictEqual(trends[3].staleGrowthPerWeek, -5);
+        assert.strictEqual(trends[3].deleted, 5);
+    });
+});
@@ -0,0 +1,92 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import { BranchPruner, defaultPrunerSettings } from '../../pruner';
+import { stashReferencesBranch } from '../../branchSafety';
+import { defaultArchiveSettings, expandNamespace } from '../../archive';
+import { branchExists, createPushedBranch, createRepositoryWithRemote, deleteRemoteBranch, git, removeFixture, RepositoryFixture } from './gitFixtures';
+
+suite('Branch safety', () => {
+    let fixture: RepositoryFixture;
+    const pruner = new BranchPruner(defaultPrunerSettings);
+
+    setup(() => {
+        fixture = createRepositoryWithRemote();
+        createPushedBranch(fixture.repo, 'feature/done');
+        deleteRemoteBranch(fixture, 'feature/done');
+    });
+
+    teardown(() => {
+        removeFixture(fixture);
+    });
+
+    test('matches stashes made on or mentioning a branch', () => {
+        assert.ok(stashReferencesBranch({ ref: 'stash@{0}', subject: 'WIP on feature/done: 1a2b3c4 Work' }, 'feature/done'));
+        assert.ok(stashReferencesBranch({ ref: 'stash@{1}', subject: 'On main: half of feature/done' }, 'feature/done'));
+        assert.ok(!stashReferencesBranch({ ref: 'stash@{2}', subject: 'On feature/done-2: other work' }, 'feature/done'));
+        assert.ok(!stashReferencesBranch({ ref: 'stash@{3}', subject: 'On main: feature/done-2 notes' }, 'feature/done'));
+    });
+
+    test('blocks branches checked out in a worktree and reports unsaved work there', async () => {
+        const [branch] = (await pruner.scanRepository(fixture.repo)).staleBranches;
+        const worktree = path.join(fixture.root, 'worktree');
+        git(fixture.repo, 'worktree', 'add', '--quiet', worktree, 'feature/done');
+        fs.writeFileSync(path.join(worktree, 'README.md'), 'changed\n');
+
+        const [found] = await pruner.findHazards([branch], [path.join(worktree, 'notes.txt')]);
+        const result = await pruner.prune([branch], { force: true });
+
+        assert.strictEqual(found.hazards[0].kind, 'worktree');
+        assert.strictEqual(found.hazards[0].blocking, true);
+        assert.match(found.hazards[0].message, /1 uncommitted change\(s\) and unsaved editor\(s\): notes\.txt/);
+        assert.deepStrictEqual(result.blocked.map(b => b.branch.name), ['feature/done']);
+        assert.deepStrictEqual(result.deleted, []);
+        assert.ok(branchExists(fixture.repo, 'feature/done'));
+    });
+
+    test('warns about stashes unless warnings block', async () => {
+        git(fixture.repo, 'checkout', '--quiet', 'feature/done');
+        fs.writeFileSync(path.join(fixture.repo, 'README.md'), 'stashed\n');
+        git(fixture.repo, 'stash', '--quiet');
+        git(fixture.repo, 'checkout', '--quiet', 'main');
+        const [branch] = (await pruner.scanRepository(fixture.repo)).staleBranches;
+
+        const strict = await pruner.prune([branch], { force: true, blockOnWarnings: true });
+        assert.strictEqual(strict.blocked[0].hazards[0].kind, 'stash');
+        assert.ok(branchExists(fixture.repo, 'feature/done'));
+
+        const lenient = await pruner.prune([branch], { force: true });
+        assert.deepStrictEqual(lenient.blocked, []);
+        assert.deepStrictEqual(lenient.deleted.map(b => b.name), ['feature/done']);
+    });
+
+    test('archives branches to a tag or an archive ref before deleting them', async () => {
+        const namespace = expandNamespace(defaultArchiveSettings.namespace, new Date());
+        createPushedBranch(fixture.repo, 'feature/other');
+        deleteRemoteBranch(fixture, 'feature/other');
+        const branches = (await pruner.scanRepository(fixture.repo)).staleBranches;
+        const tips = branches.map(b => b.lastCommit.sha);
+
+        const tagged = await pruner.prune([branches[0]], { force: true, archive: 'tag' });
+        const archived = await pruner.prune([branches[1]], { force: true, archive: 'archiveRef' });
+
+        assert.strictEqual(tagged.deleted[0].archivedAs, 'refs/tags/archive/feature/done');
+        assert.strictEqual(archived.deleted[0].archivedAs, `${namespace}/feature/other`);
+        assert.strictEqual(git(fixture.repo, 'rev-parse', 'refs/tags/archive/feature/done'), tips[0]);
+        assert.strictEqual(git(fixture.repo, 'rev-parse', `${namespace}/feature/other`), tips[1]);
+        assert.ok(!branchExists(fixture.repo, 'feature/done'));
+        assert.ok(!branchExists(fixture.repo, 'feature/other'));
+    });
+
+    test('does not overwrite an existing archive ref', async () => {
+        const [branch] = (await pruner.scanRepository(fixture.repo)).staleBranches;
+        const ref = `${expandNamespace(defaultArchiveSettings.namespace, new Date())}/feature/done`;
+        git(fixture.repo, 'update-ref', ref, 'main');
+
+        const result = await pruner.prune([branch], { force: true, archive: 'archiveRef' });
+
+        assert.strictEqual(result.failed.length, 1);
+        assert.ok(branchExists(fixture.repo, 'feature/done'));
+        assert.strictEqual(git(fixture.repo, 'rev-parse', ref), git(fixture.repo, 'rev-parse', 'main'));
+    });
+});
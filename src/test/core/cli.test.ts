@@ -0,0 +1,96 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { spawnSync } from 'child_process';
+import { branchExists, createPushedBranch, createRepositoryWithRemote, deleteRemoteBranch, git, removeFixture, RepositoryFixture } from './gitFixtures';
+
+const cliPath = path.join(__dirname, '..', '..', 'cli.js');
+
+function runCli(cwd: string, ...args: string[]): { status: number | null; stdout: string; stderr: string } {
+    const result = spawnSync(process.execPath, [cliPath, ...args], { cwd, encoding: 'utf8' });
+    return { status: result.status, stdout: result.stdout, stderr: result.stderr };
+}
+
+suite('git-branch-pruner CLI', () => {
+    let fixture: RepositoryFixture;
+
+    setup(() => {
+        fixture = createRepositoryWithRemote();
+        createPushedBranch(fixture.repo, 'merged');
+        createPushedBranch(fixture.repo, 'unmerged');
+        git(fixture.repo, 'merge', '--quiet', '--no-ff', '-m', 'Merge merged', 'merged');
+        git(fixture.repo, 'push', '--quiet', 'origin', 'main');
+        deleteRemoteBranch(fixture, 'merged');
+        deleteRemoteBranch(fixture, 'unmerged');
+    });
+
+    teardown(() => {
+        removeFixture(fixture);
+    });
+
+    test('scan --json prints the scan of the enclosing repository', () => {
+        const result = runCli(fixture.repo, 'scan', '--json');
+
+        assert.strictEqual(result.status, 0, result.stderr);
+        const output = JSON.parse(result.stdout);
+        assert.strictEqual(output.repositories.length, 1);
+        assert.strictEqual(output.repositories[0].repositoryPath, fixture.repo);
+        assert.deepStrictEqual(output.repositories[0].staleBranches.map((b: { name: string }) => b.name), ['merged', 'unmerged']);
+    });
+
+    test('scan --fail-on-stale exits with code 2 when branches are stale', () => {
+        assert.strictEqual(runCli(fixture.root, 'scan', '--fail-on-stale', 'repo').status, 2);
+
+        git(fixture.repo, 'branch', '-D', 'merged', 'unmerged');
+        assert.strictEqual(runCli(fixture.root, 'scan', '--fail-on-stale', 'repo').status, 0);
+    });
+
+    test('prune --dry-run deletes nothing', () => {
+        const result = runCli(fixture.repo, 'prune', '--dry-run');
+
+        assert.strictEqual(result.status, 0, result.stderr);
+        assert.match(result.stdout, /Would delete repo\/merged/);
+        assert.match(result.stdout, /Kept repo\/unmerged/);
+        assert.strictEqual(branchExists(fixture.repo, 'merged'), true);
+    });
+
+    test('prune keeps unmerged branches unless forced', () => {
+        const result = runCli(fixture.repo, 'prune', '--json');
+
+        assert.strictEqual(result.status, 0, result.stderr);
+        const output = JSON.parse(result.stdout);
+        assert.deepStrictEqual(output.deleted.map((b: { name: string }) => b.name), ['merged']);
+        assert.deepStrictEqual(output.skippedUnmerged.map((b: { name: string }) => b.name), ['unmerged']);
+        assert.strictEqual(branchExists(fixture.repo, 'merged'), false);
+        assert.strictEqual(branchExists(fixture.repo, 'unmerged'), true);
+
+        assert.strictEqual(runCli(fixture.repo, 'prune', '--force').status, 0);
+        assert.strictEqual(branchExists(fixture.repo, 'unmerged'), false);
+    });
+
+    test('scan --report prints a stale branch report', () => {
+        const result = runCli(fixture.repo, 'scan', '--report', 'csv');
+
+        assert.strictEqual(result.status, 0, result.stderr);
+        const rows = result.stdout.trim().split('\r\n');
+        assert.strictEqual(rows.length, 3);
+        assert.match(rows[1], /^repo,.*,merged,origin\/merged,true,/);
+    });
+
+    test('applies rule and protection options', () => {
+        const result = runCli(fixture.repo, 'scan', '--json', '--rules', 'upstreamGone,merged', '--combine', 'and', '--protect', 'merg*');
+
+        const [scan] = JSON.parse(result.stdout).repositories;
+        assert.deepStrictEqual(scan.staleBranches, []);
+        assert.deepStrictEqual(scan.skippedBranches.map((b: { name: string }) => b.name), ['merged']);
+    });
+
+    test('rejects invalid arguments and paths outside a repository', () => {
+        const invalid = runCli(fixture.repo, 'scan', '--rules', 'bogus');
+        assert.strictEqual(invalid.status, 1);
+        assert.match(invalid.stderr, /Unknown rule/);
+
+        const outside = runCli(fixture.root, 'scan');
+        assert.strictEqual(outside.status, 1);
+        assert.match(outside.stderr, /not inside a git repository/);
+    });
+});
@@ -0,0 +1,83 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { execFileSync } from 'child_process';
+
+/**
+ * Run git synchronously and return its trimmed output
+ */
+export function git(cwd: string, ...args: string[]): string {
+    return execFileSync('git', args, { cwd, encoding: 'utf8', stdio: ['ignore', 'pipe', 'pipe'] }).trim();
+}
+
+/**
+ * A clone of a bare repository, both in a temporary directory
+ */
+export interface RepositoryFixture {
+    root: string;
+    remote: string;
+    repo: string;
+}
+
+/**
+ * Create a bare remote and a clone with one commit on `main` pushed to it
+ */
+export function createRepositoryWithRemote(): RepositoryFixture {
+    const root = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'git-branch-pruner-')));
+    const remote = path.join(root, 'remote.git');
+    const repo = path.join(root, 'repo');
+
+    git(root, '-c', 'init.defaultBranch=main', 'init', '--bare', remote);
+    git(root, '-c', 'init.defaultBranch=main', 'clone', '--quiet', remote, repo);
+    git(repo, 'config', 'user.name', 'Test');
+    git(repo, 'config', 'user.email', 'test@example.com');
+    git(repo, 'config', 'commit.gpgsign', 'false');
+    commitFile(repo, 'README.md', 'hello\n', 'Initial commit');
+    git(repo, 'push', '--quiet', '-u', 'origin', 'main');
+    return { root, remote, repo };
+}
+
+/**
+ * Write a file and commit it on the current branch
+ */
+export function commitFile(repo: string, file: string, content: string, message: string): void {
+    fs.writeFileSync(path.join(repo, file), content);
+    git(repo, 'add', file);
+    git(repo, 'commit', '--quiet', '-m', message);
+}
+
+/**
+ * Create a branch with one commit, push it with tracking and switch back to main
+ */
+export function createPushedBranch(repo: string, branch: string): void {
+    git(repo, 'checkout', '--quiet', '-b', branch);
+    commitFile(repo, `${branch.replace(/\//g, '-')}.txt`, `${branch}\n`, `Work on ${branch}`);
+    git(repo, 'push', '--quiet', '-u', 'origin', branch);
+    git(repo, 'checkout', '--quiet', 'main');
+}
+
+/**
+ * Delete a branch on the remote, as a merged pull request would
+ */
+export function deleteRemoteBranch(fixture: RepositoryFixture, branch: string): void {
+    git(fixture.remote, 'branch', '-D', branch);
+}
+
+/**
+ * Check whether a local branch exists
+ */
+export function branchExists(repo: string, branch: string): boolean {
+    try {
+        git(repo, 'rev-parse', '--verify', '--quiet', `refs/heads/${branch}`);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Remove a fixture's temporary directory
+ */
+export function removeFixture(fixture: RepositoryFixture): void {
+    fs.rmSync(fixture.root, { recursive: true, force: true });
+}
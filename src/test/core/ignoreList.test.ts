@@ -0,0 +1,75 @@
+import * as assert from 'assert';
+import { RepositoryScan, StaleBranch } from '../../types';
+import { applyIgnoreRules, IgnoreRule } from '../../ignoreList';
+import { parseDuration, tomorrowMorning } from '../../snooze';
+
+function branch(name: string, repositoryPath: string = '/work/app'): StaleBranch {
+    return {
+        name,
+        repositoryPath,
+        repositoryName: repositoryPath.split('/').pop()!,
+        matchedRules: [{ rule: 'upstreamGone', reason: 'gone' }],
+        mergeStatus: 'merged',
+        uniqueCommits: [],
+        lastCommit: { sha: '0'.repeat(40), author: 'Ada', time: 0 }
+    };
+}
+
+function scan(repositoryPath: string, names: string[]): RepositoryScan {
+    return {
+        repositoryPath,
+        repositoryName: repositoryPath.split('/').pop()!,
+        staleBranches: names.map(name => branch(name, repositoryPath)),
+        skippedBranches: [],
+        scannedAt: 0,
+        fetched: false
+    };
+}
+
+function rule(kind: IgnoreRule['kind'], repositoryPath?: string, value?: string): IgnoreRule {
+    return { id: `${kind}-${value}`, kind, repositoryPath, value, createdAt: 0 };
+}
+
+suite('Ignore rules', () => {
+    test('ignores a single branch in one repository', () => {
+        const rules = [rule('branch', '/work/app', 'keep')];
+
+        assert.deepStrictEqual(applyIgnoreRules(scan('/work/app', ['keep', 'drop']), rules).staleBranches.map(b => b.name), ['drop']);
+        assert.deepStrictEqual(applyIgnoreRules(scan('/work/lib', ['keep']), rules).staleBranches.map(b => b.name), ['keep']);
+    });
+
+    test('ignores every branch of a repository', () => {
+        const result = applyIgnoreRules(scan('/work/app', ['a', 'b']), [rule('repository', '/work/app')]);
+
+        assert.deepStrictEqual(result.staleBranches, []);
+        assert.deepStrictEqual(result.skippedBranches, [
+            { name: 'a', reason: 'ignored: every branch in app' },
+            { name: 'b', reason: 'ignored: every branch in app' }
+        ]);
+    });
+
+    test('ignores branches matching a pattern in all repositories', () => {
+        const rules = [rule('pattern', undefined, 'experiment/*')];
+
+        const result = applyIgnoreRules(scan('/work/lib', ['experiment/x', 'feature/y']), rules);
+
+        assert.deepStrictEqual(result.staleBranches.map(b => b.name), ['feature/y']);
+        assert.strictEqual(result.skippedBranches[0].reason, 'ignored: branches matching "experiment/*" in all repositories');
+    });
+});
+
+suite('Snooze durations', () => {
+    test('parses minutes, hours and days', () => {
+        assert.strictEqual(parseDuration('90m'), 90 * 60 * 1000);
+        assert.strictEqual(parseDuration('1.5 hours'), 90 * 60 * 1000);
+        assert.strictEqual(parseDuration('3d'), 3 * 24 * 60 * 60 * 1000);
+        assert.strictEqual(parseDuration('soon'), undefined);
+        assert.strictEqual(parseDuration('0h'), undefined);
+    });
+
+    test('snoozes until 9am the next day', () => {
+        const evening = new Date(2024, 2, 5, 22, 30).getTime();
+
+        assert.strictEqual(tomorrowMorning(evening), new Date(2024, 2, 6, 9, 0).getTime());
+    });
+});
@@ -0,0 +1,109 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import { BranchPruner, defaultPrunerSettings } from '../../pruner';
+import { loadRepositoryConfig } from '../../repositoryConfig';
+import { PruneHooksConfig } from '../../pruneHooks';
+import { branchExists, createPushedBranch, createRepositoryWithRemote, deleteRemoteBranch, removeFixture, RepositoryFixture } from './gitFixtures';
+
+/**
+ * Write the repository config file with the given hooks
+ */
+function writeHooks(repo: string, hooks: PruneHooksConfig): void {
+    fs.writeFileSync(path.join(repo, '.gitbranchpruner.json'), JSON.stringify({ hooks }));
+}
+
+suite('Prune hooks', () => {
+    let fixture: RepositoryFixture;
+    const logged: string[] = [];
+    const pruner = new BranchPruner(defaultPrunerSettings, message => logged.push(message));
+    const approveHooks = async () => true;
+
+    setup(() => {
+        fixture = createRepositoryWithRemote();
+        for (const branch of ['feature/done', 'exp/PROJ-12-spike']) {
+            createPushedBranch(fixture.repo, branch);
+            deleteRemoteBranch(fixture, branch);
+        }
+        logged.length = 0;
+    });
+
+    teardown(() => {
+        removeFixture(fixture);
+    });
+
+    test('keeps branches vetoed by the beforePrune hook and runs afterPrune for deleted ones', async () => {
+        // Keep exp/* branches that name a ticket, and record what afterPrune was given
+        fs.writeFileSync(path.join(fixture.repo, 'before.js'), [
+            'let input = "";',
+            'process.stdin.on("data", d => { input += d; }).on("end", () => {',
+            '    const { branch } = JSON.parse(input);',
+            '    if (/^exp\\/[A-Z]+-\\d+/.test(branch.name)) { console.log("ticket still open"); process.exit(1); }',
+            '});'
+        ].join('\n'));
+        fs.writeFileSync(path.join(fixture.repo, 'after.js'),
+            'let input = ""; process.stdin.on("data", d => { input += d; }).on("end", () => require("fs").writeFileSync("after.json", input));');
+        writeHooks(fixture.repo, { beforePrune: 'node before.js', afterPrune: 'node after.js' });
+        const scan = await pruner.scanRepository(fixture.repo);
+
+        const result = await pruner.prune(scan.staleBranches, { force: true, approveHooks });
+
+        assert.deepStrictEqual(result.deleted.map(b => b.name), ['feature/done']);
+        assert.deepStrictEqual(result.blocked.map(found => [found.branch.name, found.hazards[0].kind, found.hazards[0].message]), [
+            ['exp/PROJ-12-spike', 'hookVeto', 'kept by beforePrune hook: ticket still open']
+        ]);
+        assert.ok(branchExists(fixture.repo, 'exp/PROJ-12-spike'));
+        const payload = JSON.parse(fs.readFileSync(path.join(fixture.repo, 'after.json'), 'utf8'));
+        assert.deepStrictEqual([payload.hook, payload.branch.name, payload.branch.snapshot.sha], ['afterPrune', 'feature/done', result.deleted[0].snapshot.sha]);
+        assert.ok(logged.includes('  [beforePrune] ticket still open'));
+        assert.deepStrictEqual(result.hookFailures, []);
+    });
+
+    test('reports hooks that time out or fail per branch', async () => {
+        writeHooks(fixture.repo, {
+            beforePrune: { command: 'node -e "if (process.env.GIT_BRANCH_PRUNER_BRANCH.startsWith(\'exp/\')) setTimeout(() => {}, 10000)"', timeoutSeconds: 1 },
+            afterPrune: 'echo cleanup failed >&2 && exit 3'
+        });
+        const scan = await pruner.scanRepository(fixture.repo);
+
+        const result = await pruner.prune(scan.staleBranches, { force: true, approveHooks });
+
+        assert.deepStrictEqual(result.blocked.map(found => [found.branch.name, found.hazards[0].kind, found.hazards[0].message]), [
+            ['exp/PROJ-12-spike', 'hookFailed', 'beforePrune hook timed out after 1s']
+        ]);
+        assert.deepStrictEqual(result.hookFailures.map(f => [f.branch.name, f.hook, f.error]), [['feature/done', 'afterPrune', 'exited with code 3']]);
+        assert.ok(logged.includes('  [afterPrune] cleanup failed'));
+    });
+
+    test('keeps branches when hooks are not approved, never runs hooks in dry runs and skips them when asked', async () => {
+        writeHooks(fixture.repo, { beforePrune: 'touch ran && exit 1', afterPrune: 'touch ran && exit 1' });
+        const scan = await pruner.scanRepository(fixture.repo);
+        const approvals: string[] = [];
+
+        const unapproved = await pruner.prune(scan.staleBranches, { force: true, approveHooks: async repositoryPath => { approvals.push(repositoryPath); return false; } });
+        const unattended = await pruner.prune(scan.staleBranches, { force: true });
+        const dryRun = await pruner.prune(scan.staleBranches, { force: true, dryRun: true, approveHooks });
+
+        assert.deepStrictEqual(approvals, [fixture.repo]);
+        for (const result of [unapproved, unattended]) {
+            assert.deepStrictEqual(result.deleted, []);
+            assert.deepStrictEqual(result.blocked.map(found => found.hazards[0].kind), ['hookNotApproved', 'hookNotApproved']);
+        }
+        assert.match(unapproved.blocked[0].hazards[0].message, /beforePrune and afterPrune hook\(s\) of \.gitbranchpruner\.json were not approved/);
+        assert.deepStrictEqual(dryRun.wouldDelete.map(b => b.name).sort(), ['exp/PROJ-12-spike', 'feature/done']);
+        assert.ok(!fs.existsSync(path.join(fixture.repo, 'ran')));
+
+        const skipped = await pruner.prune(scan.staleBranches, { force: true, skipHooks: true });
+        assert.deepStrictEqual(skipped.deleted.map(b => b.name).sort(), ['exp/PROJ-12-spike', 'feature/done']);
+        assert.deepStrictEqual(skipped.hookFailures, []);
+        assert.ok(!fs.existsSync(path.join(fixture.repo, 'ran')));
+    });
+
+    test('rejects invalid hooks in the config file', () => {
+        writeHooks(fixture.repo, { beforePrune: { command: 'true', timeoutSeconds: 0 } });
+        assert.throws(() => loadRepositoryConfig(fixture.repo), /hook "beforePrune" must be a command/);
+
+        fs.writeFileSync(path.join(fixture.repo, '.gitbranchpruner.json'), JSON.stringify({ hooks: { onPrune: 'true' } }));
+        assert.throws(() => loadRepositoryConfig(fixture.repo), /unknown hook "onPrune"/);
+    });
+});
@@ -0,0 +1,280 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import { BranchPruner, defaultPrunerSettings, PrunerSettings } from '../../pruner';
+import { createGit } from '../../git';
+import { restoreBranch } from '../../branchSnapshot';
+import { branchExists, commitFile, createPushedBranch, createRepositoryWithRemote, deleteRemoteBranch, git, removeFixture, RepositoryFixture } from './gitFixtures';
+
+function settings(overrides: Partial<PrunerSettings> = {}): PrunerSettings {
+    return { ...defaultPrunerSettings, ...overrides };
+}
+
+suite('BranchPruner', () => {
+    let fixture: RepositoryFixture;
+
+    setup(() => {
+        fixture = createRepositoryWithRemote();
+    });
+
+    teardown(() => {
+        removeFixture(fixture);
+    });
+
+    test('flags branches whose upstream was deleted on the remote', async () => {
+        createPushedBranch(fixture.repo, 'feature/done');
+        createPushedBranch(fixture.repo, 'feature/active');
+        deleteRemoteBranch(fixture, 'feature/done');
+
+        const scan = await new BranchPruner(settings()).scanRepository(fixture.repo);
+
+        assert.strictEqual(scan.error, undefined);
+        assert.strictEqual(scan.fetched, true);
+        assert.deepStrictEqual(scan.staleBranches.map(b => b.name), ['feature/done']);
+        const [branch] = scan.staleBranches;
+        assert.strictEqual(branch.repositoryPath, fixture.repo);
+        assert.strictEqual(branch.upstream?.remote, 'origin');
+        assert.strictEqual(branch.matchedRules[0].rule, 'upstreamGone');
+        assert.strictEqual(branch.lastCommit.sha, git(fixture.repo, 'rev-parse', 'feature/done'));
+        assert.strictEqual(branch.lastCommit.author, 'Test');
+        assert.strictEqual(branch.lastCommit.subject, 'Work on feature/done');
+        assert.deepStrictEqual(branch.aheadBehind, { ahead: 1, behind: 0 });
+        git(fixture.repo, 'branch', 'local-only');
+        const stats = (await new BranchPruner(settings({ fetchPolicy: 'never' })).scanRepository(fixture.repo)).branchStats;
+        assert.deepStrictEqual([stats?.localBranches, stats?.withoutUpstream], [4, 1]);
+        assert.ok(stats?.oldestCommitTime !== undefined && stats.oldestCommitTime <= branch.lastCommit.time);
+    });
+
+    test('does not flag branches tracking a URL instead of a named remote', async () => {
+        createPushedBranch(fixture.repo, 'feature/by-url');
+        git(fixture.repo, 'config', 'branch.feature/by-url.remote', fixture.remote);
+        createPushedBranch(fixture.repo, 'feature/removed-remote');
+        git(fixture.repo, 'config', 'branch.feature/removed-remote.remote', 'fork');
+
+        const scan = await new BranchPruner(settings()).scanRepository(fixture.repo);
+
+        assert.deepStrictEqual(scan.staleBranches.map(b => [b.name, b.matchedRules[0].reason]), [
+            ['feature/removed-remote', 'upstream gone: fork/feature/removed-remote (remote "fork" is no longer configured)']
+        ]);
+    });
+
+    test('does not fetch when the fetch policy is never', async () => {
+        createPushedBranch(fixture.repo, 'feature/done');
+        deleteRemoteBranch(fixture, 'feature/done');
+        const pruner = new BranchPruner(settings({ fetchPolicy: 'never' }));
+
+        const before = await pruner.scanRepository(fixture.repo);
+        git(fixture.repo, 'fetch', '--quiet', '--prune');
+        const after = await pruner.scanRepository(fixture.repo);
+
+        assert.strictEqual(before.fetched, false);
+        assert.deepStrictEqual(before.staleBranches, []);
+        assert.deepStrictEqual(after.staleBranches.map(b => b.name), ['feature/done']);
+    });
+
+    test('classifies merged, squash-merged and unmerged branches', async () => {
+        createPushedBranch(fixture.repo, 'merged');
+        createPushedBranch(fixture.repo, 'squashed');
+        createPushedBranch(fixture.repo, 'unmerged');
+        git(fixture.repo, 'merge', '--quiet', '--no-ff', '-m', 'Merge merged', 'merged');
+        git(fixture.repo, 'merge', '--quiet', '--squash', 'squashed');
+        git(fixture.repo, 'commit', '--quiet', '-m', 'Squash squashed');
+        git(fixture.repo, 'push', '--quiet', 'origin', 'main');
+        for (const branch of ['merged', 'squashed', 'unmerged']) {
+            deleteRemoteBranch(fixture, branch);
+        }
+
+        const scan = await new BranchPruner(settings()).scanRepository(fixture.repo);
+
+        const statuses = Object.fromEntries(scan.staleBranches.map(b => [b.name, b.mergeStatus]));
+        assert.deepStrictEqual(statuses, { merged: 'merged', squashed: 'squashMerged', unmerged: 'unmerged' });
+        const unmerged = scan.staleBranches.find(b => b.name === 'unmerged');
+        assert.deepStrictEqual(unmerged?.uniqueCommits.map(c => c.subject), ['Work on unmerged']);
+    });
+
+    test('detects squash merges of branches with several commits without writing objects', async () => {
+        createPushedBranch(fixture.repo, 'squashed');
+        git(fixture.repo, 'checkout', '--quiet', 'squashed');
+        commitFile(fixture.repo, 'second.txt', 'second\n', 'Second commit');
+        git(fixture.repo, 'push', '--quiet');
+        git(fixture.repo, 'checkout', '--quiet', 'main');
+        commitFile(fixture.repo, 'later.txt', 'later\n', 'Later work on main');
+        git(fixture.repo, 'merge', '--quiet', '--squash', 'squashed');
+        git(fixture.repo, 'commit', '--quiet', '-m', 'Squash squashed');
+        git(fixture.repo, 'push', '--quiet', 'origin', 'main');
+        deleteRemoteBranch(fixture, 'squashed');
+        const objectsBefore = git(fixture.repo, 'count-objects');
+
+        const scan = await new BranchPruner(settings()).scanRepository(fixture.repo);
+
+        assert.deepStrictEqual(scan.staleBranches.map(b => [b.name, b.mergeStatus]), [['squashed', 'squashMerged']]);
+        assert.strictEqual(git(fixture.repo, 'count-objects'), objectsBefore);
+    });
+
+    test('diffs a branch against its merge base with the default branch', async () => {
+        createPushedBranch(fixture.repo, 'feature/done');
+        deleteRemoteBranch(fixture, 'feature/done');
+        // Later work on main is not part of the branch's diff
+        commitFile(fixture.repo, 'later.txt', 'later\n', 'Later work on main');
+        git(fixture.repo, 'push', '--quiet', 'origin', 'main');
+        const pruner = new BranchPruner(settings());
+        const [branch] = (await pruner.scanRepository(fixture.repo)).staleBranches;
+
+        const diff = await pruner.diffBranch(branch);
+
+        assert.ok(diff.includes('+++ b/feature-done.txt'));
+        assert.ok(!diff.includes('later.txt'));
+    });
+
+    test('skips protected branches with the reason', async () => {
+        createPushedBranch(fixture.repo, 'release/1.0');
+        createPushedBranch(fixture.repo, 'current');
+        deleteRemoteBranch(fixture, 'release/1.0');
+        deleteRemoteBranch(fixture, 'current');
+        git(fixture.repo, 'checkout', '--quiet', 'current');
+
+        const scan = await new BranchPruner(settings({ protectedBranches: ['release/*'] })).scanRepository(fixture.repo);
+
+        assert.deepStrictEqual(scan.staleBranches, []);
+        assert.deepStrictEqual(scan.skippedBranches.map(b => b.name).sort(), ['current', 'release/1.0']);
+        assert.match(scan.skippedBranches.find(b => b.name === 'release/1.0')!.reason, /release\/\*/);
+    });
+
+    test('lets the repository config file replace the protected patterns', async () => {
+        createPushedBranch(fixture.repo, 'keep/me');
+        deleteRemoteBranch(fixture, 'keep/me');
+        fs.writeFileSync(path.join(fixture.repo, '.gitbranchpruner.json'), JSON.stringify({ protectedBranches: ['keep/**'] }));
+
+        const scan = await new BranchPruner(settings()).scanRepository(fixture.repo);
+
+        assert.deepStrictEqual(scan.skippedBranches.map(b => b.name), ['keep/me']);
+    });
+
+    test('combines rules with and', async () => {
+        createPushedBranch(fixture.repo, 'gone-unmerged');
+        createPushedBranch(fixture.repo, 'gone-merged');
+        git(fixture.repo, 'merge', '--quiet', '--no-ff', '-m', 'Merge', 'gone-merged');
+        git(fixture.repo, 'push', '--quiet', 'origin', 'main');
+        deleteRemoteBranch(fixture, 'gone-unmerged');
+        deleteRemoteBranch(fixture, 'gone-merged');
+
+        const scan = await new BranchPruner(settings({
+            staleRules: { ...defaultPrunerSettings.staleRules, rules: ['upstreamGone', 'merged'], combination: 'and' }
+        })).scanRepository(fixture.repo);
+
+        assert.deepStrictEqual(scan.staleBranches.map(b => b.name), ['gone-merged']);
+        assert.deepStrictEqual(scan.staleBranches[0].matchedRules.map(m => m.rule), ['upstreamGone', 'merged']);
+    });
+
+    test('uses the rules of the scan options instead of the settings', async () => {
+        createPushedBranch(fixture.repo, 'merged');
+        git(fixture.repo, 'merge', '--quiet', '--no-ff', '-m', 'Merge', 'merged');
+        git(fixture.repo, 'push', '--quiet', 'origin', 'main');
+        const pruner = new BranchPruner(settings());
+
+        const configured = await pruner.scanRepository(fixture.repo);
+        const overridden = await pruner.scanRepository(fixture.repo, { rules: ['merged'] });
+
+        assert.deepStrictEqual(configured.staleBranches, []);
+        assert.deepStrictEqual(overridden.staleBranches.map(b => b.name), ['merged']);
+    });
+
+    test('does not flag a new branch that was never checked out as not recently checked out', async () => {
+        git(fixture.repo, 'branch', 'fresh');
+        const noRecentCheckout = (noCheckoutDays: number) => new BranchPruner(settings({
+            staleRules: { ...defaultPrunerSettings.staleRules, rules: ['noRecentCheckout'], noCheckoutDays }
+        }));
+
+        const recent = await noRecentCheckout(90).scanRepository(fixture.repo);
+        const immediate = await noRecentCheckout(0).scanRepository(fixture.repo);
+
+        assert.deepStrictEqual(recent.staleBranches, []);
+        assert.deepStrictEqual(immediate.staleBranches.map(b => [b.name, b.matchedRules[0].reason]), [['fresh', 'no checkout recorded, unchanged for 0 days']]);
+    });
+
+    test('reports an unreachable remote on the scan instead of throwing', async () => {
+        git(fixture.repo, 'remote', 'set-url', 'origin', path.join(fixture.root, 'missing.git'));
+
+        const scan = await new BranchPruner(settings()).scanRepository(fixture.repo);
+
+        assert.ok(scan.error);
+        assert.deepStrictEqual(scan.staleBranches, []);
+    });
+
+    test('deletes branches and returns snapshots that restore them', async () => {
+        createPushedBranch(fixture.repo, 'feature/done');
+        deleteRemoteBranch(fixture, 'feature/done');
+        const sha = git(fixture.repo, 'rev-parse', 'feature/done');
+        const pruner = new BranchPruner(settings());
+        const scan = await pruner.scanRepository(fixture.repo);
+
+        const result = await pruner.deleteBranches(scan.staleBranches);
+
+        assert.deepStrictEqual(result.failed, []);
+        assert.strictEqual(result.deleted.length, 1);
+        assert.strictEqual(branchExists(fixture.repo, 'feature/done'), false);
+        const { snapshot } = result.deleted[0];
+        assert.deepStrictEqual(snapshot, { sha, upstreamRemote: 'origin', upstreamMerge: 'refs/heads/feature/done' });
+
+        await restoreBranch(createGit(fixture.repo), 'feature/done', snapshot);
+        assert.strictEqual(git(fixture.repo, 'rev-parse', 'feature/done'), sha);
+        assert.strictEqual(git(fixture.repo, 'config', 'branch.feature/done.remote'), 'origin');
+    });
+
+    test('prune skips unmerged branches unless forced and deletes nothing in a dry run', async () => {
+        createPushedBranch(fixture.repo, 'merged');
+        createPushedBranch(fixture.repo, 'unmerged');
+        git(fixture.repo, 'merge', '--quiet', '--no-ff', '-m', 'Merge merged', 'merged');
+        git(fixture.repo, 'push', '--quiet', 'origin', 'main');
+        deleteRemoteBranch(fixture, 'merged');
+        deleteRemoteBranch(fixture, 'unmerged');
+        const pruner = new BranchPruner(settings());
+        const { staleBranches } = await pruner.scanRepository(fixture.repo);
+
+        const dryRun = await pruner.prune(staleBranches, { dryRun: true });
+        assert.deepStrictEqual(dryRun.wouldDelete.map(b => b.name), ['merged']);
+        assert.deepStrictEqual(dryRun.skippedUnmerged.map(b => b.name), ['unmerged']);
+        assert.deepStrictEqual(dryRun.deleted, []);
+        assert.strictEqual(branchExists(fixture.repo, 'merged'), true);
+
+        const safe = await pruner.prune(staleBranches);
+        assert.deepStrictEqual(safe.deleted.map(b => b.name), ['merged']);
+        assert.strictEqual(branchExists(fixture.repo, 'unmerged'), true);
+
+        const forced = await pruner.prune(safe.skippedUnmerged, { force: true });
+        assert.deepStrictEqual(forced.deleted.map(b => b.name), ['unmerged']);
+    });
+
+    test('reports branches that could not be deleted and continues', async () => {
+        createPushedBranch(fixture.repo, 'first');
+        createPushedBranch(fixture.repo, 'second');
+        deleteRemoteBranch(fixture, 'first');
+        deleteRemoteBranch(fixture, 'second');
+        const pruner = new BranchPruner(settings());
+        const scan = await pruner.scanRepository(fixture.repo);
+        git(fixture.repo, 'branch', '-D', 'first');
+
+        const result = await pruner.deleteBranches(scan.staleBranches);
+
+        assert.deepStrictEqual(result.failed.map(f => f.branch.name), ['first']);
+        assert.deepStrictEqual(result.deleted.map(b => b.name), ['second']);
+    });
+
+    test('stops deleting once the signal is aborted', async () => {
+        createPushedBranch(fixture.repo, 'first');
+        createPushedBranch(fixture.repo, 'second');
+        deleteRemoteBranch(fixture, 'first');
+        deleteRemoteBranch(fixture, 'second');
+        const pruner = new BranchPruner(settings());
+        const scan = await pruner.scanRepository(fixture.repo);
+        const abortController = new AbortController();
+
+        const result = await pruner.deleteBranches(scan.staleBranches, {
+            signal: abortController.signal,
+            onProgress: () => abortController.abort()
+        });
+
+        assert.strictEqual(result.deleted.length, 1);
+        assert.strictEqual(branchExists(fixture.repo, scan.staleBranches[1].name), true);
+    });
+});
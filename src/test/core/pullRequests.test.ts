@@ -0,0 +1,119 @@
+import * as assert from 'assert';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { BranchPruner, defaultPrunerSettings } from '../../pruner';
+import { createPullRequestProvider, detectProvider, parseRemoteUrl } from '../../pullRequests';
+import { createRepositoryWithRemote, git, removeFixture, RepositoryFixture } from './gitFixtures';
+
+/**
+ * A local HTTP server answering with canned JSON per path prefix
+ */
+interface MockServer {
+    baseUrl: string;
+    requests: http.IncomingMessage[];
+    close(): Promise<void>;
+}
+
+function startMockServer(routes: Record<string, unknown>): Promise<MockServer> {
+    const requests: http.IncomingMessage[] = [];
+    const server = http.createServer((request, response) => {
+        requests.push(request);
+        const route = Object.keys(routes).find(prefix => request.url?.startsWith(prefix));
+        response.writeHead(route ? 200 : 404, { 'Content-Type': 'application/json' });
+        response.end(JSON.stringify(route ? routes[route] : { message: 'Not Found' }));
+    });
+    return new Promise(resolve => server.listen(0, '127.0.0.1', () => resolve({
+        baseUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+        requests,
+        close: () => new Promise(done => server.close(() => done()))
+    })));
+}
+
+suite('Pull requests', () => {
+    let server: MockServer | undefined;
+
+    teardown(async () => {
+        await server?.close();
+        server = undefined;
+    });
+
+    test('parses remote URLs and detects the provider', () => {
+        assert.deepStrictEqual(parseRemoteUrl('https://github.com/acme/app.git'), { host: 'github.com', path: ['acme', 'app'] });
+        assert.deepStrictEqual(parseRemoteUrl('git@gitlab.com:group/sub/app.git'), { host: 'gitlab.com', path: ['group', 'sub', 'app'] });
+        assert.deepStrictEqual(parseRemoteUrl('ssh://git@bitbucket.org:22/team/app'), { host: 'bitbucket.org', path: ['team', 'app'] });
+        assert.strictEqual(detectProvider(parseRemoteUrl('git@ssh.dev.azure.com:v3/org/project/app')!.host), 'azureDevOps');
+        assert.strictEqual(detectProvider('git.example.com'), undefined);
+    });
+
+    test('maps GitHub pull requests and sends the token', async () => {
+        server = await startMockServer({
+            '/repos/acme/app/pulls?head=acme%3Amerged': [{ number: 7, state: 'closed', merged_at: '2024-01-01T00:00:00Z', html_url: 'https://github.com/acme/app/pull/7', title: 'Merged' }],
+            '/repos/acme/app/pulls?head=acme%3Aabandoned': [{ number: 8, state: 'closed', merged_at: null, html_url: 'https://github.com/acme/app/pull/8', title: 'Abandoned' }],
+            '/repos/acme/app/pulls?head=acme%3Anone': []
+        });
+        const provider = createPullRequestProvider('github', server.baseUrl, 'secret');
+        const repository = { host: 'github.com', path: ['acme', 'app'] };
+
+        assert.strictEqual((await provider.findPullRequest(repository, 'merged'))?.state, 'merged');
+        assert.deepStrictEqual(await provider.findPullRequest(repository, 'abandoned'), {
+            provider: 'github', number: 8, state: 'closed', url: 'https://github.com/acme/app/pull/8', title: 'Abandoned'
+        });
+        assert.strictEqual(await provider.findPullRequest(repository, 'none'), undefined);
+        assert.strictEqual(server.requests[0].headers.authorization, 'Bearer secret');
+    });
+
+    test('maps GitLab, Bitbucket and Azure DevOps states', async () => {
+        server = await startMockServer({
+            '/projects/group%2Fapp/merge_requests': [{ iid: 3, state: 'opened', web_url: 'https://gitlab.com/group/app/-/merge_requests/3', title: 'Open' }],
+            '/repositories/team/app/pullrequests': { values: [{ id: 4, state: 'DECLINED', title: 'Declined', links: { html: { href: 'https://bitbucket.org/team/app/pull-requests/4' } } }] },
+            '/org/project/_apis/git/repositories/app/pullrequests': { value: [{ pullRequestId: 5, status: 'completed', title: 'Done' }] }
+        });
+
+        const gitlab = await createPullRequestProvider('gitlab', server.baseUrl).findPullRequest({ host: 'gitlab.com', path: ['group', 'app'] }, 'feature');
+        const bitbucket = await createPullRequestProvider('bitbucket', server.baseUrl).findPullRequest({ host: 'bitbucket.org', path: ['team', 'app'] }, 'feature');
+        const azure = await createPullRequestProvider('azureDevOps', server.baseUrl).findPullRequest({ host: 'dev.azure.com', path: ['org', 'project', '_git', 'app'] }, 'feature');
+
+        assert.deepStrictEqual([gitlab?.number, gitlab?.state], [3, 'open']);
+        assert.deepStrictEqual([bitbucket?.number, bitbucket?.state], [4, 'closed']);
+        assert.deepStrictEqual([azure?.number, azure?.state, azure?.url], [5, 'merged', `${server.baseUrl}/org/project/_git/app/pullrequest/5`]);
+    });
+
+    suite('scanning', () => {
+        let fixture: RepositoryFixture;
+
+        setup(() => {
+            fixture = createRepositoryWithRemote();
+        });
+
+        teardown(() => {
+            removeFixture(fixture);
+        });
+
+        test('keeps merged branches whose pull request was closed without merging', async () => {
+            // Both branches point at main, so they are fully merged; only the PR state differs
+            for (const branch of ['feature/merged', 'feature/abandoned']) {
+                git(fixture.repo, 'branch', branch);
+                git(fixture.repo, 'push', '--quiet', '-u', 'origin', branch);
+                git(fixture.remote, 'branch', '-D', branch);
+            }
+            git(fixture.repo, 'fetch', '--quiet', '--prune');
+            git(fixture.repo, 'remote', 'set-url', 'origin', 'https://github.com/acme/app.git');
+            server = await startMockServer({
+                '/repos/acme/app/pulls?head=acme%3Afeature%2Fmerged': [{ number: 1, state: 'closed', merged_at: '2024-01-01T00:00:00Z', html_url: 'https://github.com/acme/app/pull/1' }],
+                '/repos/acme/app/pulls?head=acme%3Afeature%2Fabandoned': [{ number: 2, state: 'closed', merged_at: null, html_url: 'https://github.com/acme/app/pull/2' }]
+            });
+            const pruner = new BranchPruner({
+                ...defaultPrunerSettings,
+                fetchPolicy: 'never',
+                pullRequests: { provider: 'auto', baseUrl: server.baseUrl, tokens: {}, timeoutMs: 5000 }
+            });
+
+            const scan = await pruner.scanRepository(fixture.repo);
+            const result = await pruner.prune(scan.staleBranches);
+
+            assert.deepStrictEqual(scan.staleBranches.map(b => [b.name, b.pullRequest?.state]), [['feature/abandoned', 'closed'], ['feature/merged', 'merged']]);
+            assert.deepStrictEqual(result.deleted.map(b => b.name), ['feature/merged']);
+            assert.deepStrictEqual(result.skippedUnmerged.map(b => b.name), ['feature/abandoned']);
+        });
+    });
+});
@@ -0,0 +1,67 @@
+import * as assert from 'assert';
+import { BranchPruner, defaultPrunerSettings } from '../../pruner';
+import { commitFile, createPushedBranch, createRepositoryWithRemote, git, removeFixture, RepositoryFixture } from './gitFixtures';
+
+/**
+ * Push a branch with one commit by the given author and merge it into main
+ */
+function createMergedBranch(fixture: RepositoryFixture, branch: string, authorEmail: string = 'test@example.com'): void {
+    git(fixture.repo, 'checkout', '--quiet', '-b', branch);
+    git(fixture.repo, 'config', 'user.email', authorEmail);
+    commitFile(fixture.repo, `${branch.replace(/\//g, '-')}.txt`, `${branch}\n`, `Work on ${branch}`);
+    git(fixture.repo, 'config', 'user.email', 'test@example.com');
+    git(fixture.repo, 'push', '--quiet', '-u', 'origin', branch);
+    git(fixture.repo, 'checkout', '--quiet', 'main');
+    git(fixture.repo, 'merge', '--quiet', '--no-ff', '-m', `Merge ${branch}`, branch);
+    git(fixture.repo, 'push', '--quiet', 'origin', 'main');
+}
+
+function remoteBranches(fixture: RepositoryFixture): string[] {
+    return git(fixture.remote, 'for-each-ref', '--format=%(refname:short)', 'refs/heads').split('\n').sort();
+}
+
+suite('Remote branch pruning', () => {
+    let fixture: RepositoryFixture;
+    const pruner = new BranchPruner(defaultPrunerSettings);
+
+    setup(() => {
+        fixture = createRepositoryWithRemote();
+        createMergedBranch(fixture, 'mine');
+        createMergedBranch(fixture, 'jdoe/merged', 'jdoe@example.com');
+        createMergedBranch(fixture, 'someone/else', 'someone@example.com');
+        createPushedBranch(fixture.repo, 'unmerged');
+    });
+
+    teardown(() => {
+        removeFixture(fixture);
+    });
+
+    test('finds merged branches authored by the configured user by default', async () => {
+        const scan = await pruner.scanRemoteBranches(fixture.repo, { authorEmails: [], branchPatterns: [] });
+
+        assert.strictEqual(scan.error, undefined);
+        assert.deepStrictEqual(scan.branches.map(b => `${b.remote}/${b.name}`), ['origin/mine']);
+        assert.strictEqual(scan.branches[0].authorEmail, 'test@example.com');
+        assert.deepStrictEqual(scan.skippedBranches.map(b => b.name).sort(), ['jdoe/merged', 'main', 'someone/else']);
+    });
+
+    test('filters by author email or branch pattern', async () => {
+        const byEmail = await pruner.scanRemoteBranches(fixture.repo, { authorEmails: ['JDoe@example.com'], branchPatterns: [] });
+        const byPattern = await pruner.scanRemoteBranches(fixture.repo, { authorEmails: [], branchPatterns: ['someone/*'] });
+
+        assert.deepStrictEqual(byEmail.branches.map(b => b.name), ['jdoe/merged']);
+        assert.deepStrictEqual(byPattern.branches.map(b => b.name), ['someone/else']);
+    });
+
+    test('deletes branches on the remote and reports failures per branch', async () => {
+        const scan = await pruner.scanRemoteBranches(fixture.repo, { authorEmails: [], branchPatterns: ['jdoe/*', 'someone/*'] });
+        // Someone pushes to one of the branches after the scan
+        git(fixture.remote, 'update-ref', 'refs/heads/someone/else', 'refs/heads/unmerged');
+
+        const result = await pruner.deleteRemoteBranches(scan.branches);
+
+        assert.deepStrictEqual(result.deleted.map(b => b.name), ['jdoe/merged']);
+        assert.deepStrictEqual(result.failed.map(f => f.branch.name), ['someone/else']);
+        assert.deepStrictEqual(remoteBranches(fixture), ['main', 'mine', 'someone/else', 'unmerged']);
+    });
+});
@@ -0,0 +1,86 @@
+import * as assert from 'assert';
+import { RepositoryScan } from '../../types';
+import { buildReport, formatReport } from '../../report';
+
+const scannedAt = Date.UTC(2024, 0, 15, 12, 0, 0);
+
+const scan: RepositoryScan = {
+    repositoryPath: '/work/app',
+    repositoryName: 'app',
+    scannedAt,
+    fetched: true,
+    skippedBranches: [{ name: 'main', reason: 'current branch' }],
+    staleBranches: [{
+        name: 'feature/a,b',
+        repositoryPath: '/work/app',
+        repositoryName: 'app',
+        upstream: { remote: 'origin', mergeRef: 'refs/heads/feature/a,b', trackingRef: 'refs/remotes/origin/feature/a,b', gone: true, goneReason: 'deleted' },
+        matchedRules: [
+            { rule: 'upstreamGone', reason: 'upstream "origin/feature/a,b" is gone' },
+            { rule: 'inactive', reason: 'no commits | 120 days' }
+        ],
+        mergeStatus: 'unmerged',
+        uniqueCommits: [{ sha: 'abc', subject: 'Work' }],
+        lastCommit: { sha: '0123456789abcdef0123456789abcdef01234567', author: 'Ada', time: Date.UTC(2023, 8, 1) },
+        aheadBehind: { ahead: 1, behind: 4 }
+    }]
+};
+
+suite('Stale branch report', () => {
+    test('flattens scans into report entries', () => {
+        const report = buildReport([scan], scannedAt);
+
+        assert.strictEqual(report.generatedAt, '2024-01-15T12:00:00.000Z');
+        assert.deepStrictEqual(report.repositories, [{
+            repository: 'app',
+            repositoryPath: '/work/app',
+            scannedAt: '2024-01-15T12:00:00.000Z',
+            fetched: true,
+            staleCount: 1,
+            error: undefined
+        }]);
+        assert.deepStrictEqual(report.branches[0], {
+            repository: 'app',
+            repositoryPath: '/work/app',
+            branch: 'feature/a,b',
+            upstream: 'origin/feature/a,b',
+            upstreamGone: true,
+            lastCommitSha: '0123456789abcdef0123456789abcdef01234567',
+            lastCommitAuthor: 'Ada',
+            lastCommitDate: '2023-09-01T00:00:00.000Z',
+            ahead: 1,
+            behind: 4,
+            mergeStatus: 'unmerged',
+            rules: ['upstreamGone', 'inactive'],
+            reasons: ['upstream "origin/feature/a,b" is gone', 'no commits | 120 days'],
+            pullRequest: undefined,
+            pullRequestState: undefined,
+            pullRequestUrl: undefined
+        });
+        assert.deepStrictEqual(report.skipped, [{ repository: 'app', branch: 'main', reason: 'current branch' }]);
+    });
+
+    test('round-trips as JSON', () => {
+        const report = buildReport([scan], scannedAt);
+
+        assert.deepStrictEqual(JSON.parse(formatReport(report, 'json')), JSON.parse(JSON.stringify(report)));
+    });
+
+    test('quotes CSV fields with separators and quotes', () => {
+        const lines = formatReport(buildReport([scan], scannedAt), 'csv').split('\r\n');
+
+        assert.strictEqual(lines[0], 'repository,repositoryPath,branch,upstream,upstreamGone,lastCommitSha,lastCommitAuthor,lastCommitDate,ahead,behind,mergeStatus,rules,reasons,pullRequest,pullRequestState,pullRequestUrl');
+        assert.strictEqual(lines[1], 'app,/work/app,"feature/a,b","origin/feature/a,b",true,0123456789abcdef0123456789abcdef01234567,Ada,2023-09-01T00:00:00.000Z,1,4,unmerged,upstreamGone; inactive,"upstream ""origin/feature/a,b"" is gone; no commits | 120 days",,,');
+        assert.strictEqual(lines[2], '');
+    });
+
+    test('escapes table separators in Markdown', () => {
+        const markdown = formatReport(buildReport([scan], scannedAt), 'markdown');
+
+        assert.match(markdown, /^# Stale Branch Report/);
+        assert.match(markdown, /\| app \| 1 \| 2024-01-15T12:00:00\.000Z \| yes \|/);
+        assert.match(markdown, /\| feature\/a,b \| origin\/feature\/a,b \(gone\) \| `01234567` Ada, 2023-09-01 \| 1 \/ 4 \|/);
+        assert.match(markdown, /no commits \\\| 120 days/);
+        assert.match(markdown, /\| app \| main \| current branch \|/);
+    });
+});
@@ -0,0 +1,126 @@
+import * as assert from 'assert';
+import { BranchPruner, defaultPrunerSettings } from '../../pruner';
+import { findRenamedUpstream, isSameUpstreamHistory, UpstreamTip, updateUpstreamHistory } from '../../upstreamHistory';
+import { commitFile, createPushedBranch, createRepositoryWithRemote, git, removeFixture, RepositoryFixture } from './gitFixtures';
+
+const dayMs = 24 * 60 * 60 * 1000;
+
+/**
+ * Rename a branch on the remote, as a hosting service does
+ */
+function renameRemoteBranch(fixture: RepositoryFixture, from: string, to: string): void {
+    git(fixture.remote, 'branch', '-m', from, to);
+}
+
+suite('Upstream history', () => {
+    let fixture: RepositoryFixture;
+    const pruner = new BranchPruner(defaultPrunerSettings);
+
+    setup(() => {
+        fixture = createRepositoryWithRemote();
+    });
+
+    teardown(() => {
+        removeFixture(fixture);
+    });
+
+    test('reports a renamed upstream instead of a stale branch and re-points it', async () => {
+        createPushedBranch(fixture.repo, 'feature/login');
+        git(fixture.repo, 'checkout', '--quiet', 'main');
+        await pruner.scanRepository(fixture.repo);
+        renameRemoteBranch(fixture, 'feature/login', 'feature/sign-in');
+
+        const scan = await pruner.scanRepository(fixture.repo);
+
+        assert.deepStrictEqual(scan.staleBranches, []);
+        assert.deepStrictEqual(scan.renamedUpstreams?.map(r => [r.branch, r.from, r.to, r.mergeRef]), [
+            ['feature/login', 'refs/remotes/origin/feature/login', 'refs/remotes/origin/feature/sign-in', 'refs/heads/feature/sign-in']
+        ]);
+
+        await pruner.repointUpstream(fixture.repo, scan.renamedUpstreams![0]);
+
+        assert.strictEqual(git(fixture.repo, 'rev-parse', '--abbrev-ref', 'feature/login@{upstream}'), 'origin/feature/sign-in');
+        assert.deepStrictEqual((await pruner.scanRepository(fixture.repo)).renamedUpstreams, []);
+    });
+
+    test('flags the branch when its old tip is not unique on the remote', async () => {
+        createPushedBranch(fixture.repo, 'feature/login');
+        git(fixture.repo, 'push', '--quiet', 'origin', 'feature/login:feature/login-copy', 'feature/login:feature/login-backup');
+        git(fixture.repo, 'checkout', '--quiet', 'main');
+        await pruner.scanRepository(fixture.repo);
+        git(fixture.remote, 'branch', '-D', 'feature/login');
+
+        const scan = await pruner.scanRepository(fixture.repo);
+
+        assert.deepStrictEqual(scan.renamedUpstreams, []);
+        assert.deepStrictEqual(scan.staleBranches.map(b => b.name), ['feature/login']);
+    });
+
+    test('flags a branch fast-forwarded into another branch and deleted instead of taking that branch as its new name', async () => {
+        // No local branch tracks develop, so only the refs known at the first scan rule it out
+        git(fixture.repo, 'push', '--quiet', 'origin', 'main:develop');
+        createPushedBranch(fixture.repo, 'feature/done');
+        git(fixture.repo, 'checkout', '--quiet', 'main');
+        await pruner.scanRepository(fixture.repo);
+        git(fixture.remote, 'update-ref', 'refs/heads/develop', 'refs/heads/feature/done');
+        git(fixture.remote, 'branch', '-D', 'feature/done');
+
+        const scan = await pruner.scanRepository(fixture.repo);
+
+        assert.deepStrictEqual(scan.renamedUpstreams, []);
+        assert.deepStrictEqual(scan.staleBranches.map(b => b.name), ['feature/done']);
+    });
+
+    test('flags a branch pushed without commits of its own once it is deleted', async () => {
+        git(fixture.repo, 'checkout', '--quiet', '-b', 'feature/empty');
+        git(fixture.repo, 'push', '--quiet', '-u', 'origin', 'feature/empty');
+        git(fixture.repo, 'checkout', '--quiet', 'main');
+        await pruner.scanRepository(fixture.repo);
+        git(fixture.remote, 'branch', '-D', 'feature/empty');
+
+        const scan = await pruner.scanRepository(fixture.repo);
+
+        assert.deepStrictEqual(scan.renamedUpstreams, []);
+        assert.deepStrictEqual(scan.staleBranches.map(b => b.name), ['feature/empty']);
+    });
+
+    test('flags branches without upstream only when a ref they tracked is gone', async () => {
+        createPushedBranch(fixture.repo, 'feature/unset');
+        createPushedBranch(fixture.repo, 'feature/removed');
+        git(fixture.repo, 'checkout', '--quiet', '-b', 'feature/local');
+        commitFile(fixture.repo, 'local.txt', 'local\n', 'Local work');
+        git(fixture.repo, 'checkout', '--quiet', 'main');
+        await pruner.scanRepository(fixture.repo);
+        git(fixture.repo, 'branch', '--quiet', '--unset-upstream', 'feature/unset');
+        git(fixture.repo, 'branch', '--quiet', '--unset-upstream', 'feature/removed');
+        git(fixture.remote, 'branch', '-D', 'feature/removed');
+
+        const scan = await pruner.scanRepository(fixture.repo);
+
+        assert.deepStrictEqual(scan.staleBranches.map(b => b.name), ['feature/removed']);
+        assert.match(scan.staleBranches[0].matchedRules[0].reason, /origin\/feature\/removed, last seen \d{4}-\d{2}-\d{2}, no longer exists/);
+    });
+
+    test('forgets tips of deleted branches and tips not seen within the retention period', () => {
+        const now = Date.parse('2024-06-01T00:00:00.000Z');
+        const tip = (branch: string, seenAt: number): UpstreamTip => ({ branch, remote: 'origin', trackingRef: `refs/remotes/origin/${branch}`, sha: 'a'.repeat(40), seenAt, knownRefs: [] });
+        const previous = [tip('kept', now - 10 * dayMs), tip('expired', now - 100 * dayMs), tip('deleted', now - dayMs)];
+        const branches = ['kept', 'expired'].map(name => ({ name }));
+
+        assert.deepStrictEqual(updateUpstreamHistory(previous, branches, new Map(), now), [previous[0]]);
+        assert.strictEqual(findRenamedUpstream(previous[0], new Map([['refs/remotes/upstream/kept-renamed', 'a'.repeat(40)]])), undefined);
+    });
+
+    test('leaves an unchanged history as it is until its tips are a day old', () => {
+        const now = Date.parse('2024-06-01T00:00:00.000Z');
+        const branches = [{ name: 'topic', upstream: { remote: 'origin', mergeRef: 'refs/heads/topic', trackingRef: 'refs/remotes/origin/topic', gone: false } }];
+        const remoteRefs = new Map([['refs/remotes/origin/topic', 'a'.repeat(40)], ['refs/remotes/origin/main', 'b'.repeat(40)]]);
+        const recorded = updateUpstreamHistory([], branches, remoteRefs, now);
+
+        assert.deepStrictEqual(recorded[0].knownRefs, ['refs/remotes/origin/main', 'refs/remotes/origin/topic']);
+        assert.ok(isSameUpstreamHistory(recorded, updateUpstreamHistory(recorded, branches, remoteRefs, now + 60 * 60 * 1000)));
+        assert.ok(!isSameUpstreamHistory(recorded, updateUpstreamHistory(recorded, branches, remoteRefs, now + dayMs)));
+        remoteRefs.set('refs/remotes/origin/other', 'c'.repeat(40));
+        assert.ok(!isSameUpstreamHistory(recorded, updateUpstreamHistory(recorded, branches, remoteRefs, now + 60 * 60 * 1000)));
+    });
+});
@@ -0,0 +1,146 @@
+import { AheadBehind, MergeStatus, UniqueCommit } from './mergeStatus';
+import { BranchUpstream } from './upstream';
+import { RuleMatch } from './staleRules';
+import { GitFailure } from './git';
+import { BranchSnapshot } from './branchSnapshot';
+import { BranchHazard } from './branchSafety';
+import { PullRequestInfo } from './pullRequests';
+import { PruneHookName } from './pruneHooks';
+import { RenamedUpstream } from './upstreamHistory';
+
+/**
+ * The tip commit of a branch
+ */
+export interface LastCommit {
+    sha: string;
+    author: string;
+    /** Committer date, in milliseconds */
+    time: number;
+    /** Subject line of the commit message; missing in scans cached by older versions */
+    subject?: string;
+}
+
+/**
+ * Interface representing a stale branch that can be pruned
+ */
+export interface StaleBranch {
+    name: string;
+    repositoryPath: string;
+    repositoryName: string;
+    upstream?: BranchUpstream;
+    /** Staleness rules the branch matched, explaining why it was flagged */
+    matchedRules: RuleMatch[];
+    mergeStatus: MergeStatus;
+    uniqueCommits: UniqueCommit[];
+    lastCommit: LastCommit;
+    /** Divergence from the default branch, unless no default branch was found */
+    aheadBehind?: AheadBehind;
+    /** Latest pull request opened from the branch, when a hosting provider is configured */
+    pullRequest?: PullRequestInfo;
+}
+
+/**
+ * A branch that would have been flagged stale but is protected
+ */
+export interface SkippedBranch {
+    name: string;
+    reason: string;
+}
+
+/**
+ * Counts over every local branch of a repository, stale or not
+ */
+export interface BranchStats {
+    localBranches: number;
+    /** Branches with no upstream configured */
+    withoutUpstream: number;
+    /** Last commit time of the branch idle the longest, in milliseconds */
+    oldestCommitTime?: number;
+}
+
+/**
+ * Result of scanning one repository for stale branches
+ */
+export interface RepositoryScan {
+    repositoryPath: string;
+    repositoryName: string;
+    staleBranches: StaleBranch[];
+    skippedBranches: SkippedBranch[];
+    /** When the scan finished, in milliseconds */
+    scannedAt: number;
+    /** Whether remotes were fetched before scanning, or cached remote-tracking refs were used */
+    fetched: boolean;
+    /** Counts over all local branches; missing when the scan failed */
+    branchStats?: BranchStats;
+    /** Branches whose upstream was renamed on the remote; not stale, but their upstream can be re-pointed */
+    renamedUpstreams?: RenamedUpstream[];
+    /** Set when the scan failed, e.g. because the remote was unreachable or git timed out */
+    error?: GitFailure;
+}
+
+/**
+ * A branch deleted by a prune run, with the snapshot needed to restore it
+ */
+export interface DeletedBranch extends StaleBranch {
+    snapshot: BranchSnapshot;
+    /** Ref the branch was kept under, when it was archived instead of only deleted */
+    archivedAs?: string;
+}
+
+/**
+ * A branch that could not be deleted
+ */
+export interface FailedDeletion {
+    branch: StaleBranch;
+    error: string;
+}
+
+/**
+ * A hook that failed or timed out for a deleted branch
+ */
+export interface FailedHook {
+    branch: DeletedBranch;
+    hook: PruneHookName;
+    error: string;
+}
+
+/**
+ * A branch left alone because the pre-delete safety check found a problem
+ */
+export interface BlockedBranch {
+    branch: StaleBranch;
+    hazards: BranchHazard[];
+}
+
+/**
+ * Outcome of deleting a set of branches
+ */
+export interface PruneResult {
+    deleted: DeletedBranch[];
+    failed: FailedDeletion[];
+}
+
+/**
+ * Outcome of a prune run, which may skip unmerged branches or be a dry run
+ */
+export interface PruneRunResult extends PruneResult {
+    dryRun: boolean;
+    /** Branches that would have been deleted, when this was a dry run */
+    wouldDelete: StaleBranch[];
+    /** Branches with commits not on the default branch, left alone because the run was not forced */
+    skippedUnmerged: StaleBranch[];
+    /** Branches with worktrees, stashes or unsaved work, or kept by a beforePrune hook */
+    blocked: BlockedBranch[];
+    /** Deleted branches whose afterPrune hook failed */
+    hookFailures: FailedHook[];
+}
+
+/**
+ * The subset of the built-in `vscode.git` extension API used for repository discovery
+ */
+export interface GitExtension {
+    readonly enabled: boolean;
+    getAPI(version: 1): {
+        readonly repositories: ReadonlyArray<{ readonly rootUri: { readonly fsPath: string } }>;
+    };
+}
@@ -0,0 +1,141 @@
+import { SimpleGit } from 'simple-git';
+
+/**
+ * The configured upstream of a local branch and whether it still exists
+ */
+export interface BranchUpstream {
+    /** Remote name from `branch.<name>.remote`, e.g. "upstream" */
+    remote: string;
+    /** Ref on the remote from `branch.<name>.merge`, e.g. "refs/heads/feature/foo" */
+    mergeRef: string;
+    /** Local remote-tracking ref, e.g. "refs/remotes/upstream/feature/foo", if the remote's refspec maps it */
+    trackingRef?: string;
+    /** True when the upstream ref or its whole remote has disappeared */
+    gone: boolean;
+    /** Why the upstream is considered gone */
+    goneReason?: string;
+}
+
+/**
+ * A local branch with its tip and upstream information
+ */
+export interface LocalBranchInfo {
+    name: string;
+    sha: string;
+    /** Committer date of the tip, in milliseconds */
+    lastCommitTime: number;
+    /** Author of the tip commit */
+    lastCommitAuthor: string;
+    /** Subject line of the tip commit */
+    lastCommitSubject: string;
+    upstream?: BranchUpstream;
+}
+
+/**
+ * Short display name of an upstream, e.g. "origin/feature/foo"
+ */
+export function describeUpstream(upstream: BranchUpstream): string {
+    if (upstream.trackingRef?.startsWith('refs/remotes/')) {
+        return upstream.trackingRef.substring('refs/remotes/'.length);
+    }
+    return `${upstream.remote}/${upstream.mergeRef.replace(/^refs\/heads\//, '')}`;
+}
+
+/**
+ * Read `branch.<name>.remote` and `branch.<name>.merge` for every branch in one call
+ */
+async function readBranchConfig(git: SimpleGit): Promise<Map<string, { remote?: string; merge?: string }>> {
+    const config = new Map<string, { remote?: string; merge?: string }>();
+    let output = '';
+    try {
+        output = await git.raw(['config', '-z', '--get-regexp', '^branch\\..*\\.(remote|merge)$']);
+    } catch {
+        // No branch has upstream config
+        return config;
+    }
+
+    // With -z each entry is "key\nvalue\0"
+    for (const entry of output.split('\0')) {
+        const newline = entry.indexOf('\n');
+        if (newline < 0) {
+            continue;
+        }
+        const key = entry.substring(0, newline);
+        const value = entry.substring(newline + 1);
+        const match = /^branch\.(.+)\.(remote|merge)$/.exec(key);
+        if (!match) {
+            continue;
+        }
+        const branchConfig = config.get(match[1]) ?? {};
+        branchConfig[match[2] as 'remote' | 'merge'] = value;
+        config.set(match[1], branchConfig);
+    }
+
+    return config;
+}
+
+/**
+ * Whether `branch.<name>.remote` is a URL or path instead of a remote name, as
+ * set by e.g. `git pull <url> <branch>`. Remote names can't contain ":".
+ */
+function isRemoteUrl(remote: string): boolean {
+    return /^([^/]*:|\.{1,2}\/|\/|~)/.test(remote);
+}
+
+/**
+ * List configured remotes
+ */
+export async function listRemotes(git: SimpleGit): Promise<string[]> {
+    const output = await git.raw(['remote']);
+    return output.split('\n').map(r => r.trim()).filter(r => r.length > 0);
+}
+
+/**
+ * List local branches with their configured upstream and whether it is gone.
+ * Detection is based on each branch's own `branch.<name>.remote/merge` config,
+ * so branches tracking any remote, or a differently named remote branch, are handled.
+ */
+export async function listLocalBranches(git: SimpleGit): Promise<LocalBranchInfo[]> {
+    const [refsOutput, branchConfig, remotes] = await Promise.all([
+        git.raw(['for-each-ref', '--format=%(refname)%00%(objectname)%00%(committerdate:unix)%00%(authorname)%00%(upstream)%00%(upstream:track)%00%(contents:subject)', 'refs/heads']),
+        readBranchConfig(git),
+        listRemotes(git)
+    ]);
+
+    const branches: LocalBranchInfo[] = [];
+    for (const line of refsOutput.split('\n')) {
+        const [refName, sha, committerDate, author, upstreamRef, track, subject] = line.trim().split('\0');
+        if (!refName?.startsWith('refs/heads/')) {
+            continue;
+        }
+
+        const name = refName.substring('refs/heads/'.length);
+        const config = branchConfig.get(name);
+        const info: LocalBranchInfo = { name, sha, lastCommitTime: parseInt(committerDate, 10) * 1000, lastCommitAuthor: author, lastCommitSubject: subject ?? '' };
+
+        // "." means the branch tracks another local branch, which is never "gone" remotely
+        if (config?.remote && config.merge && config.remote !== '.') {
+            const upstream: BranchUpstream = {
+                remote: config.remote,
+                mergeRef: config.merge,
+                trackingRef: upstreamRef || undefined,
+                gone: false
+            };
+
+            // A URL remote has no remote-tracking refs, so whether its branch still exists is unknown
+            if (!remotes.includes(config.remote) && !isRemoteUrl(config.remote)) {
+                upstream.gone = true;
+                upstream.goneReason = `remote "${config.remote}" is no longer configured`;
+            } else if (track === '[gone]') {
+                upstream.gone = true;
+                upstream.goneReason = `${config.merge} was deleted on remote "${config.remote}"`;
+            }
+
+            info.upstream = upstream;
+        }
+
+        branches.push(info);
+    }
+
+    return branches;
+}
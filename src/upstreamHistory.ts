@@ -0,0 +1,214 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { SimpleGit } from 'simple-git';
+import { RemoteDefaultBranch } from './protectedBranches';
+import { LocalBranchInfo } from './upstream';
+
+/**
+ * The remote-tracking ref a local branch followed and its tip when last seen
+ */
+export interface UpstreamTip {
+    branch: string;
+    remote: string;
+    /** e.g. "refs/remotes/origin/feature/foo" */
+    trackingRef: string;
+    sha: string;
+    /** When a scan last saw the ref, in milliseconds */
+    seenAt: number;
+    /**
+     * Refs on the same remote when the tip was recorded. Only a ref created
+     * since then can be the new name of the upstream.
+     */
+    knownRefs: string[];
+}
+
+/**
+ * A local branch whose upstream disappeared while another ref on the same
+ * remote now points at the tip it had, i.e. the remote branch was renamed
+ */
+export interface RenamedUpstream {
+    branch: string;
+    remote: string;
+    /** The remote-tracking ref that disappeared */
+    from: string;
+    /** The remote-tracking ref with the same tip */
+    to: string;
+    /** Ref on the remote to track instead, e.g. "refs/heads/feature/bar" */
+    mergeRef: string;
+    sha: string;
+}
+
+/**
+ * Days a tip is remembered after its ref was last seen
+ */
+export const upstreamHistoryRetentionDays = 90;
+
+const dayMs = 24 * 60 * 60 * 1000;
+
+/**
+ * Remote-tracking refs of one remote, sorted
+ */
+function listRefsOfRemote(remote: string, remoteRefs: Map<string, string>): string[] {
+    const prefix = `refs/remotes/${remote}/`;
+    return [...remoteRefs.keys()].filter(refName => refName.startsWith(prefix)).sort();
+}
+
+/**
+ * Short display name of a remote-tracking ref, e.g. "origin/feature/foo"
+ */
+export function describeTrackingRef(trackingRef: string): string {
+    return trackingRef.replace(/^refs\/remotes\//, '');
+}
+
+/**
+ * List remote-tracking refs with their tips, leaving out the symbolic
+ * `<remote>/HEAD` refs
+ */
+export async function listRemoteTrackingRefs(git: SimpleGit): Promise<Map<string, string>> {
+    const output = await git.raw(['for-each-ref', '--format=%(refname)%00%(objectname)%00%(symref)', 'refs/remotes']);
+    const refs = new Map<string, string>();
+    for (const line of output.split('\n')) {
+        const [refName, sha, symref] = line.trim().split('\0');
+        if (refName && sha && !symref) {
+            refs.set(refName, sha);
+        }
+    }
+    return refs;
+}
+
+/**
+ * Where the tips are kept: next to the repository's own metadata, so the
+ * extension and the CLI share them and every worktree sees the same history
+ */
+export async function getUpstreamHistoryPath(git: SimpleGit, repositoryPath: string): Promise<string> {
+    const commonDir = (await git.raw(['rev-parse', '--git-common-dir'])).trim();
+    return path.resolve(repositoryPath, commonDir, 'branch-pruner', 'upstream-tips.json');
+}
+
+/**
+ * Read the recorded tips. A missing or unreadable file is an empty history;
+ * tips recorded without the refs known at the time are dropped, since they
+ * cannot tell a renamed upstream from a ref that already existed.
+ */
+export function loadUpstreamHistory(filePath: string): UpstreamTip[] {
+    try {
+        const parsed = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+        return Array.isArray(parsed?.tips) ? parsed.tips.filter((tip: UpstreamTip) => Array.isArray(tip?.knownRefs)) : [];
+    } catch {
+        return [];
+    }
+}
+
+/**
+ * Write the tips, creating the directory when needed
+ */
+export function saveUpstreamHistory(filePath: string, tips: UpstreamTip[]): void {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, JSON.stringify({ version: 2, tips }, null, 2));
+}
+
+/**
+ * Whether two histories hold the same tips, so an unchanged history is not
+ * written again
+ */
+export function isSameUpstreamHistory(a: UpstreamTip[], b: UpstreamTip[]): boolean {
+    return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Record the current tip of every upstream that still exists. Tips of
+ * upstreams that disappeared are kept for the retention period so later
+ * scans can still explain them; tips of deleted local branches are dropped.
+ * A tip whose ref, commit and known refs are unchanged is only refreshed once
+ * a day, so repeated scans leave the history as it is.
+ */
+export function updateUpstreamHistory(previous: UpstreamTip[], branches: Pick<LocalBranchInfo, 'name' | 'upstream'>[], remoteRefs: Map<string, string>, now: number = Date.now()): UpstreamTip[] {
+    const cutoff = now - upstreamHistoryRetentionDays * dayMs;
+    const tips = new Map(previous
+        .filter(tip => tip.seenAt >= cutoff && branches.some(b => b.name === tip.branch))
+        .map(tip => [tip.branch, tip]));
+    for (const branch of branches) {
+        const trackingRef = branch.upstream?.trackingRef;
+        const sha = trackingRef && remoteRefs.get(trackingRef);
+        if (!branch.upstream || !trackingRef || !sha) {
+            continue;
+        }
+        const knownRefs = listRefsOfRemote(branch.upstream.remote, remoteRefs);
+        const recorded = tips.get(branch.name);
+        const unchanged = recorded?.trackingRef === trackingRef && recorded.sha === sha &&
+            recorded.knownRefs.join('\n') === knownRefs.join('\n') && now - recorded.seenAt < dayMs;
+        if (!unchanged) {
+            tips.set(branch.name, { branch: branch.name, remote: branch.upstream.remote, trackingRef, sha, seenAt: now, knownRefs });
+        }
+    }
+    return [...tips.values()].sort((a, b) => a.branch.localeCompare(b.branch));
+}
+
+/**
+ * Refs that can never be the new name of another branch's upstream: the
+ * remotes' default branches and every ref a local branch tracks
+ */
+export function getClaimedRefs(branches: Pick<LocalBranchInfo, 'upstream'>[], remoteDefaultBranches: RemoteDefaultBranch[]): Set<string> {
+    const claimed = new Set(remoteDefaultBranches.map(d => `refs/remotes/${d.remote}/${d.branch}`));
+    for (const branch of branches) {
+        if (branch.upstream?.trackingRef) {
+            claimed.add(branch.upstream.trackingRef);
+        }
+    }
+    return claimed;
+}
+
+/**
+ * Find the ref a vanished upstream was renamed to: the only ref on the same
+ * remote that was created after the tip was recorded, points at that tip and
+ * is not claimed by a default branch or another local branch. A branch that
+ * was fast-forwarded into an existing branch and deleted is not a rename.
+ * Returns undefined while the upstream still exists or when no ref, or more
+ * than one, matches.
+ */
+export function findRenamedUpstream(tip: UpstreamTip, remoteRefs: Map<string, string>, claimedRefs: Set<string> = new Set()): RenamedUpstream | undefined {
+    if (remoteRefs.has(tip.trackingRef)) {
+        return undefined;
+    }
+    const prefix = `refs/remotes/${tip.remote}/`;
+    const knownRefs = new Set(tip.knownRefs);
+    const candidates = [...remoteRefs].filter(([refName, sha]) =>
+        refName.startsWith(prefix) && sha === tip.sha && !knownRefs.has(refName) && !claimedRefs.has(refName));
+    if (candidates.length !== 1) {
+        return undefined;
+    }
+    const [to] = candidates[0];
+    return {
+        branch: tip.branch,
+        remote: tip.remote,
+        from: tip.trackingRef,
+        to,
+        mergeRef: `refs/heads/${to.substring(prefix.length)}`,
+        sha: tip.sha
+    };
+}
+
+/**
+ * Why a branch without upstream config still counts as having lost its
+ * remote branch, from config and recorded refs only:
+ * - `branch.<name>.remote` is set but no remote branch is configured
+ * - a scan saw it track a ref that no longer exists
+ * A branch that never tracked anything, or whose old upstream still exists
+ * after `git branch --unset-upstream`, is not gone.
+ */
+export async function getMissingUpstreamReason(git: SimpleGit, branchName: string, tip: UpstreamTip | undefined, remoteRefs: Map<string, string>): Promise<string | undefined> {
+    let remote = '';
+    try {
+        remote = (await git.raw(['config', '--get', `branch.${branchName}.remote`])).trim();
+    } catch {
+        // Exits with 1 when the key is not set
+    }
+    // "." tracks another local branch, which can never disappear remotely
+    if (remote && remote !== '.') {
+        return `has remote "${remote}" configured but no remote branch`;
+    }
+    if (tip && !remoteRefs.has(tip.trackingRef)) {
+        return `${describeTrackingRef(tip.trackingRef)}, last seen ${new Date(tip.seenAt).toISOString().substring(0, 10)}, no longer exists`;
+    }
+    return undefined;
+}
@@ -0,0 +1,20 @@
+import * as crypto from 'crypto';
+
+/**
+ * Escape text for use in HTML content and attribute values
+ */
+export function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+}
+
+/**
+ * Random value allowing only the page's own script and style elements
+ */
+export function createNonce(): string {
+    return crypto.randomBytes(16).toString('base64');
+}